@@ -1,6 +1,186 @@
+import { AxiosError } from "axios";
 import ExtendableError from "es6-error";
+import type { ImportDatabaseResult } from "./archive/databaseArchive";
+import type { FieldValidationError } from "./validation/itemValidator";
+import type { ResponseSchemaIssue } from "./validation/responseSchemas";
 
-export default class CMSError extends ExtendableError {}
+export interface CMSErrorDetails {
+  /** The HTTP status code of the response */
+  statusCode?: number;
+  /** The HTTP method of the request */
+  method?: string;
+  /** The path of the request, relative to the API endpoint */
+  path?: string;
+  /** The body of the error response sent by the server */
+  payload?: any;
+  /** The error this error wraps */
+  cause?: Error;
+}
+
+export default class CMSError extends ExtendableError {
+  /** The HTTP status code of the response */
+  statusCode?: number;
+  /** The HTTP method of the request */
+  method?: string;
+  /** The path of the request, relative to the API endpoint */
+  path?: string;
+  /** The body of the error response sent by the server */
+  payload?: any;
+  /** The error this error wraps */
+  cause?: Error;
+
+  constructor(message = "", { statusCode, method, path, payload, cause }: CMSErrorDetails = {}) {
+    super(message);
+    this.statusCode = statusCode;
+    this.method = method;
+    this.path = path;
+    this.payload = payload;
+    if (cause) this.cause = cause;
+  }
+}
+
+/** The requested resource does not exist, or its ID is not valid */
+export class NotFoundError extends CMSError {}
+
+/** The server rejected the data sent with the request */
+export class ValidationError extends CMSError {}
+
+/** The data of an item failed validation against the fields of its collection */
+export class ItemValidationError extends ValidationError {
+  /** The errors of every field that failed validation */
+  fieldErrors: FieldValidationError[];
+
+  constructor(fieldErrors: FieldValidationError[], details: CMSErrorDetails = {}) {
+    super(fieldErrors.map((error) => error.message).join("; "), details);
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+/** A file is larger than the maximum size of the field it is uploaded for */
+export class AssetTooLargeError extends ValidationError {
+  /** The size of the file in bytes, or the number of bytes read before it was rejected */
+  size: number;
+  /** The maximum size in bytes */
+  maxSize: number;
+
+  constructor(size: number, maxSize: number, details: CMSErrorDetails = {}) {
+    super(`The file is larger than the maximum size of ${maxSize} bytes`, details);
+    this.size = size;
+    this.maxSize = maxSize;
+  }
+}
+
+/** The body of a response does not have the shape the client expects */
+export class ResponseValidationError extends CMSError {
+  /** Every value of the response that does not match its schema */
+  issues: ResponseSchemaIssue[];
+
+  constructor(issues: ResponseSchemaIssue[], details: CMSErrorDetails = {}) {
+    super(
+      `Unexpected response from ${details.method} ${details.path}: ${issues
+        .map(
+          ({ path, expected, received }) =>
+            `expected ${expected} at '${path || "response"}', got ${received}`
+        )
+        .join("; ")}`,
+      details
+    );
+    this.issues = issues;
+  }
+}
+
+/** Importing a database archive failed after the database was created */
+export class ImportDatabaseError extends CMSError {
+  /** The database, collections and items created before the import failed */
+  result: ImportDatabaseResult<Date | string>;
+  /** The error the import failed with */
+  error: Error;
+
+  constructor(result: ImportDatabaseResult<Date | string>, error: Error) {
+    const { collections, items } = result;
+    super(
+      `Importing the database failed after creating ${Object.keys(collections).length} ` +
+        `collections and ${Object.keys(items).length} items: ${error.message}`,
+      error instanceof CMSError ? error : {}
+    );
+    this.result = result;
+    this.error = error;
+  }
+}
+
+/** The API token is missing, invalid or expired */
+export class AuthenticationError extends CMSError {}
+
+/** The user does not have permission to perform the request */
+export class PermissionError extends CMSError {}
+
+/** Too many requests were sent in a given amount of time */
+export class RateLimitError extends CMSError {
+  /** The number of seconds to wait before sending another request, if the server sent one */
+  retryAfter?: number;
+
+  constructor(message = "", details: CMSErrorDetails & { retryAfter?: number } = {}) {
+    super(message, details);
+    this.retryAfter = details.retryAfter;
+  }
+}
+
+/** The request failed before a response was received */
+export class NetworkError extends CMSError {}
+
+/** The request was cancelled with the `signal` passed to the client method */
+export class AbortError extends CMSError {}
 
 export const buildRequiredArgError = (name: string) =>
   new CMSError(`Argument '${name}' is required but was not present`);
+
+/**
+ * Converts a failed axios request into the `CMSError` subclass matching the response
+ * @param err The error thrown by axios
+ * @param method The HTTP method of the request
+ * @param path The path of the request, relative to the API endpoint
+ */
+export const buildResponseError = (err: AxiosError, method: string, path: string): CMSError => {
+  const { response } = err;
+  if (!response) return new NetworkError(err.message, { method, path });
+
+  const payload = response.data;
+  const message = (payload && payload.message) || err.message;
+  const details: CMSErrorDetails = { statusCode: response.status, method, path, payload };
+
+  switch (response.status) {
+    case 400:
+      // The API reports IDs that cannot be cast to an ObjectId with a 400 response
+      if (/^Invalid (_id|database)/.test(message)) return new NotFoundError(message, details);
+      return new ValidationError(message, details);
+    case 401:
+      return new AuthenticationError(message, details);
+    case 403:
+      return new PermissionError(message, details);
+    case 404:
+      return new NotFoundError(message, details);
+    case 422:
+      return new ValidationError(message, details);
+    case 429:
+      return new RateLimitError(message, {
+        ...details,
+        retryAfter: parseRetryAfter(response.headers && response.headers["retry-after"]),
+      });
+    default:
+      return new CMSError(message, details);
+  }
+};
+
+/**
+ * Parses a `Retry-After` header, which is either a number of seconds or an HTTP date,
+ * into a number of seconds
+ * @param header The value of the header
+ */
+const parseRetryAfter = (header?: string) => {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return seconds;
+  const date = Date.parse(header);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(0, (date - Date.now()) / 1000);
+};
@@ -0,0 +1,79 @@
+import { PageResult, QueryFeatures } from "./interfaces/queryInterfaces";
+import Query from "./Query";
+
+const DEFAULT_LIMIT = 100;
+
+type PageQuery<T> = QueryFeatures<any> | Query<T, any, any>;
+
+/**
+ * Walks the pages of a paginated list. Pages are requested one at a time, so large
+ * collections can be processed without loading every result into memory:
+ *
+ *      for await (const item of cms.items(collection_id).iterate({ limit: 500 })) {
+ *        ...
+ *      }
+ */
+export default class Paginator<T> {
+  private fetchPage: (query: Query<T, any, any>) => Promise<PageResult<T>>;
+
+  /**
+   * @param fetchPage Function that requests a single page of results for a query
+   */
+  constructor(fetchPage: (query: Query<T, any, any>) => Promise<PageResult<T>>) {
+    this.fetchPage = fetchPage;
+  }
+
+  /**
+   * Requests a single page of results with its pagination metadata
+   * @param query The query of the page. Defaults to the first page
+   */
+  page(query: PageQuery<T> = {}) {
+    return this.fetchPage(toQuery(query));
+  }
+
+  /**
+   * Iterates over every page of results, starting at the page set in `query`
+   * @param query The query of the first page
+   */
+  async *pages(query: PageQuery<T> = {}): AsyncGenerator<PageResult<T>, void, undefined> {
+    const first = toQuery<T>(query);
+    const options = first.getOptions();
+    let page = options.page || 1;
+    const limit = options.limit || DEFAULT_LIMIT;
+    while (true) {
+      const result = await this.fetchPage(first.clone().page(page).limit(limit));
+      yield result;
+      if (result.data.length === 0 || result.data.length < (result.limit || limit)) return;
+      page++;
+    }
+  }
+
+  /**
+   * Iterates over every result on every page
+   * @param query The query of the first page
+   */
+  async *iterate(query: PageQuery<T> = {}): AsyncGenerator<T, void, undefined> {
+    for await (const result of this.pages(query)) {
+      yield* result.data;
+    }
+  }
+
+  /**
+   * Requests every page and returns all of the results
+   * @param query The query of the first page
+   */
+  async all(query: PageQuery<T> = {}) {
+    const data: T[] = [];
+    for await (const result of this.pages(query)) {
+      data.push(...result.data);
+    }
+    return data;
+  }
+
+  [Symbol.asyncIterator]() {
+    return this.iterate();
+  }
+}
+
+const toQuery = <T>(query: PageQuery<T>) =>
+  query instanceof Query ? query.clone() : new Query<T>().setOptions(query);
@@ -0,0 +1,298 @@
+import CMSError from "./CMSError";
+import { RemoveIndex } from "./interfaces/itemInterfaces";
+import { FinalQuery, QueryFeatures, QueryOperator, SortOrder } from "./interfaces/queryInterfaces";
+import { normalizePopulate, PopulateOptions, PopulateSpec } from "./populate";
+
+/** The names of the fields a query on `T` can filter, sort and select by */
+export type QueryPath<T> = 0 extends 1 & T ? string : keyof RemoveIndex<T> & string;
+
+type PathValue<T, P> = P extends keyof T ? T[P] : any;
+
+type Conditions = { [path: string]: { [operator: string]: any } };
+
+type Executor<R> = (query: Query<any, R, any>) => Promise<R>;
+
+const operators: QueryOperator[] = ["ne", "gt", "gte", "lt", "lte", "in", "nin"];
+
+/**
+ * Chainable builder for filtering, sorting, selecting and paginating results. A query
+ * serializes to the query string parameters the API accepts:
+ *
+ *      new Query<Business>().where("rating").gte(3).sort("-created-on").select(["name"]).limit(20)
+ *      // ?rating[gte]=3&sort=-created-on&fields=name&limit=20
+ *
+ * Queries returned by a model's `find()` and `findOne()` can be awaited directly.
+ */
+export default class Query<T = any, R = unknown, P extends QueryPath<T> = never> {
+  private conditions: Conditions = {};
+  private sortFields: string[] = [];
+  private selectedFields: string[] = [];
+  private options: Pick<QueryFeatures<T>, "page" | "limit"> = {};
+  private populateOptions: PopulateOptions[] = [];
+  private currentPath?: string;
+  private executor?: Executor<R>;
+
+  /**
+   * @param filter Field values or operator conditions the results must match
+   * @param executor Function that runs the query when it is executed or awaited
+   */
+  constructor(filter: { [path: string]: any } = {}, executor?: Executor<R>) {
+    this.executor = executor;
+    this.find(filter);
+  }
+
+  /**
+   * Adds a filter to the query. Fields are matched by value or by an object of
+   * `$`-prefixed operators (e.g. `{ rating: { $gte: 3 } }`)
+   * @param filter The filter being added
+   */
+  find(filter: { [path: string]: any } = {}): Query<T, R, P> {
+    for (const path of Object.keys(filter)) {
+      const value = filter[path];
+      if (isOperatorObject(value)) {
+        for (const key of Object.keys(value)) {
+          this.addCondition(path, key.slice(1), value[key]);
+        }
+      } else {
+        this.addCondition(path, "eq", value);
+      }
+    }
+    return this;
+  }
+
+  /**
+   * Sets the field the following operator methods apply to
+   * @param path The name of the field
+   */
+  where<K extends QueryPath<T>>(path: K): Query<T, R, K> {
+    this.currentPath = path;
+    return this as any;
+  }
+
+  /** Matches results where the current field is equal to `value` */
+  equals(value: PathValue<T, P>): Query<T, R, P> {
+    return this.addCondition(this.getCurrentPath("equals"), "eq", value);
+  }
+
+  /** Matches results where the current field is not equal to `value` */
+  ne(value: PathValue<T, P>): Query<T, R, P> {
+    return this.addCondition(this.getCurrentPath("ne"), "ne", value);
+  }
+
+  /** Matches results where the current field is greater than `value` */
+  gt(value: PathValue<T, P>): Query<T, R, P> {
+    return this.addCondition(this.getCurrentPath("gt"), "gt", value);
+  }
+
+  /** Matches results where the current field is greater than or equal to `value` */
+  gte(value: PathValue<T, P>): Query<T, R, P> {
+    return this.addCondition(this.getCurrentPath("gte"), "gte", value);
+  }
+
+  /** Matches results where the current field is less than `value` */
+  lt(value: PathValue<T, P>): Query<T, R, P> {
+    return this.addCondition(this.getCurrentPath("lt"), "lt", value);
+  }
+
+  /** Matches results where the current field is less than or equal to `value` */
+  lte(value: PathValue<T, P>): Query<T, R, P> {
+    return this.addCondition(this.getCurrentPath("lte"), "lte", value);
+  }
+
+  /** Matches results where the current field is equal to one of `values` */
+  in(values: PathValue<T, P>[]): Query<T, R, P> {
+    return this.addCondition(this.getCurrentPath("in"), "in", values);
+  }
+
+  /** Matches results where the current field is not equal to any of `values` */
+  nin(values: PathValue<T, P>[]): Query<T, R, P> {
+    return this.addCondition(this.getCurrentPath("nin"), "nin", values);
+  }
+
+  /**
+   * Sets the sort order of the results. Accepts a string of field names, where a
+   * leading `-` sorts in descending order (e.g. `"-created-on name"`), an array of
+   * such names, or an object mapping field names to a sort order.
+   * @param arg The sort order
+   */
+  sort(arg: string | string[] | { [K in QueryPath<T>]?: SortOrder }): Query<T, R, P> {
+    if (typeof arg === "string") {
+      this.sortFields = arg.split(/[\s,]+/).filter(Boolean);
+    } else if (Array.isArray(arg)) {
+      this.sortFields = [...arg];
+    } else {
+      this.sortFields = Object.keys(arg).map((path) => {
+        const order = (arg as { [path: string]: SortOrder })[path];
+        const descending = order === -1 || order === "desc" || order === "descending";
+        return descending ? `-${path}` : path;
+      });
+    }
+    return this;
+  }
+
+  /**
+   * Limits each result to the fields in `fields`. Fields passed to `populate()` are
+   * always included
+   * @param fields The fields each result will include
+   */
+  select(fields: QueryPath<T>[] | string): Query<T, R, P> {
+    this.selectedFields =
+      typeof fields === "string" ? fields.split(/[\s,]+/).filter(Boolean) : [...fields];
+    return this;
+  }
+
+  /**
+   * Sets the number of results the response is limited to
+   * @param limit The maximum number of results
+   */
+  limit(limit: number): Query<T, R, P> {
+    this.options.limit = limit;
+    return this;
+  }
+
+  /**
+   * Sets the paginated page of the results
+   * @param page The page number, starting at 1
+   */
+  page(page: number): Query<T, R, P> {
+    this.options.page = page;
+    return this;
+  }
+
+  /**
+   * Replaces the IDs in reference fields of the results with the referenced items
+   * (e.g. `.populate("author")`, `.populate("author.company tags")` or
+   * `.populate({ path: "author", select: ["name"] })`)
+   * @param spec The reference fields being populated
+   */
+  populate(spec: PopulateSpec): Query<T, R, P> {
+    this.populateOptions = normalizePopulate([...this.populateOptions, ...normalizePopulate(spec)]);
+    return this;
+  }
+
+  /**
+   * Applies an object of query features (`page`, `limit`, `sort` and `fields`)
+   * @param features The query features
+   */
+  setOptions(features: QueryFeatures<any>): Query<T, R, P> {
+    const { page, limit, sort, fields } = features;
+    if (page !== undefined) this.page(page);
+    if (limit !== undefined) this.limit(limit);
+    if (sort !== undefined) this.sort(sort);
+    if (fields !== undefined) this.select(fields as any);
+    return this;
+  }
+
+  /** Returns the filter of the query as an object of `$`-prefixed operators */
+  getFilter() {
+    const filter: { [path: string]: any } = {};
+    for (const path of Object.keys(this.conditions)) {
+      filter[path] = {};
+      for (const operator of Object.keys(this.conditions[path])) {
+        filter[path][`$${operator}`] = this.conditions[path][operator];
+      }
+    }
+    return filter;
+  }
+
+  /** Returns the pagination, sorting and field selection of the query */
+  getOptions(): QueryFeatures<T> {
+    const options: QueryFeatures<any> = { ...this.options };
+    if (this.sortFields.length) options.sort = this.sortFields.join(",");
+    if (this.selectedFields.length) options.fields = [...this.selectedFields];
+    return options;
+  }
+
+  /** Returns the reference fields the results are populated with */
+  getPopulate(): PopulateOptions[] {
+    return [...this.populateOptions];
+  }
+
+  /** Serializes the query to the query string parameters the API accepts */
+  toQueryParams(): FinalQuery {
+    const params: FinalQuery = {};
+    for (const path of Object.keys(this.conditions)) {
+      for (const operator of Object.keys(this.conditions[path])) {
+        const value = serializeValue(this.conditions[path][operator]);
+        if (operator === "eq") params[path] = value;
+        else params[`${path}[${operator}]`] = value;
+      }
+    }
+    if (this.options.page !== undefined) params.page = this.options.page;
+    if (this.options.limit !== undefined) params.limit = this.options.limit;
+    if (this.sortFields.length) params.sort = this.sortFields.join(",");
+    if (this.selectedFields.length) {
+      // Populated fields are selected as well, so their IDs can be replaced
+      const populated = this.populateOptions.map((options) => options.path);
+      params.fields = [...new Set([...this.selectedFields, ...populated])].join(",");
+    }
+    return params;
+  }
+
+  /** Returns a copy of the query that can be changed without affecting this query */
+  clone(): Query<T, R, P> {
+    const query = new Query<T, R, P>({}, this.executor);
+    for (const path of Object.keys(this.conditions)) {
+      query.conditions[path] = { ...this.conditions[path] };
+    }
+    query.sortFields = [...this.sortFields];
+    query.selectedFields = [...this.selectedFields];
+    query.options = { ...this.options };
+    query.populateOptions = [...this.populateOptions];
+    return query;
+  }
+
+  /** Executes the query */
+  exec(): Promise<R> {
+    if (!this.executor) {
+      return Promise.reject(new CMSError("Query cannot be executed without a model"));
+    }
+    return this.executor(this);
+  }
+
+  /** Executes the query, so it can be awaited like a promise */
+  then<TResult1 = R, TResult2 = never>(
+    onfulfilled?: ((value: R) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null
+  ): Promise<TResult1 | TResult2> {
+    return this.exec().then(onfulfilled, onrejected);
+  }
+
+  /** Executes the query and handles a rejection */
+  catch<TResult = never>(
+    onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | null
+  ): Promise<R | TResult> {
+    return this.exec().catch(onrejected);
+  }
+
+  private getCurrentPath(method: string) {
+    if (!this.currentPath) {
+      throw new CMSError(`${method}() must be called after where()`);
+    }
+    return this.currentPath;
+  }
+
+  private addCondition(path: string, operator: string, value: any) {
+    if (operator !== "eq" && !operators.includes(operator as QueryOperator)) {
+      throw new CMSError(`Unsupported query operator '$${operator}' on '${path}'`);
+    }
+    this.conditions[path] = { ...this.conditions[path], [operator]: value };
+    return this;
+  }
+}
+
+const isOperatorObject = (value: any): value is { [operator: string]: any } =>
+  value !== null &&
+  typeof value === "object" &&
+  !Array.isArray(value) &&
+  !(value instanceof Date) &&
+  Object.keys(value).length > 0 &&
+  Object.keys(value).every((key) => key.startsWith("$"));
+
+const serializeValue = (value: any): string | number | string[] => {
+  // Lists are sent as a repeated parameter, so their values can contain commas
+  if (Array.isArray(value)) return value.map((v) => String(serializeValue(v)));
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === "number") return value;
+  return String(value);
+};
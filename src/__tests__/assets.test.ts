@@ -0,0 +1,100 @@
+import { Method } from "axios";
+import { promises as fs } from "fs";
+import { createServer, Server } from "http";
+import { AddressInfo } from "net";
+import { tmpdir } from "os";
+import { join } from "path";
+import init, {
+  AssetTooLargeError,
+  createMockServer,
+  MockCMSServer,
+  UploadProgress,
+} from "../index";
+
+/**
+ * Serves a mock server over HTTP, so requests go through the HTTP adapter of axios and
+ * its limits. Returns the server and the number of requests it received
+ */
+const listen = async (mock: MockCMSServer) => {
+  const stats = { requests: 0 };
+  const server = createServer(async (req, res) => {
+    stats.requests++;
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk);
+    const body = Buffer.concat(chunks);
+    const json = /json/.test(req.headers["content-type"] || "");
+    const response = await mock
+      .transport({
+        method: req.method as Method,
+        url: req.url,
+        headers: req.headers,
+        data: !body.length ? undefined : json ? body.toString() : body,
+      })
+      .catch((err) => err.response || { status: 500, data: { message: err.message } });
+    res.writeHead(response.status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(response.data));
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  return { server, stats };
+};
+
+describe("asset uploads", () => {
+  const mock = createMockServer();
+  let server: Server;
+  let stats: { requests: number };
+  let endpoint: string;
+
+  beforeAll(async () => {
+    ({ server, stats } = await listen(mock));
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/v1`;
+  });
+
+  afterAll(() => new Promise((resolve) => server.close(resolve)));
+
+  it("streams a file larger than 10 MB over HTTP", async () => {
+    const cms = init({ token: "test", endpoint });
+    const database = await cms.createDatabase("Media");
+    const file = Buffer.alloc(11 * 1024 * 1024);
+    for (let i = 0; i < file.length; i += 4096) file[i] = i % 251;
+    const progress: UploadProgress[] = [];
+
+    const asset = await cms.uploadAsset(database._id, file, {
+      fileName: "video.bin",
+      onProgress: (event) => progress.push(event),
+    });
+    expect(asset).toMatchObject({ fileName: "video.bin", size: file.length });
+    expect(mock.getAssetContent(asset._id)!.equals(file)).toBe(true);
+    expect(progress[progress.length - 1]).toEqual({ loaded: file.length, total: file.length });
+  });
+
+  it("names an uploaded file after its path", async () => {
+    const cms = init({ token: "test", endpoint });
+    const database = await cms.createDatabase("Media");
+    const path = join(tmpdir(), `cms-database-sdk-${process.pid}.png`);
+    await fs.writeFile(path, Buffer.from("not really a png"));
+
+    try {
+      const asset = await cms.uploadAsset(database._id, path);
+      expect(asset).toMatchObject({
+        fileName: expect.stringMatching(/\.png$/),
+        mimeType: "image/png",
+      });
+      await expect(cms.getAssetById(asset._id)).resolves.toMatchObject({ _id: asset._id });
+    } finally {
+      await fs.unlink(path);
+    }
+  });
+
+  it("rejects a file larger than maxSize without sending it", async () => {
+    const cms = init({ token: "test", endpoint });
+    const database = await cms.createDatabase("Media");
+    const sent = stats.requests;
+
+    const error = await cms
+      .uploadAsset(database._id, Buffer.alloc(2048), { maxSize: 1024 })
+      .catch((err) => err);
+    expect(error).toBeInstanceOf(AssetTooLargeError);
+    expect(error).toMatchObject({ size: 2048, maxSize: 1024 });
+    expect(stats.requests).toBe(sent);
+  });
+});
@@ -0,0 +1,95 @@
+import { AxiosAdapter } from "axios";
+import init, { createMockServer, Item, ValidationError } from "../index";
+
+interface Post extends Item {
+  name: string;
+  views?: number;
+}
+
+const setup = async (transport?: AxiosAdapter) => {
+  const server = createMockServer();
+  const cms = init({ token: "test", transport: transport || server.transport });
+  const database = await cms.createDatabase("Blog");
+  const collection = await cms.createCollectionByDatabaseId(database._id, {
+    name: "Posts",
+    fields: [
+      { name: "Name", type: "PlainText", required: true },
+      { name: "Views", type: "Number" },
+    ],
+  });
+  return { cms, collection_id: collection._id, server };
+};
+
+describe("bulk operations", () => {
+  it("reports the outcome of every item created, in order", async () => {
+    const { cms, collection_id } = await setup();
+
+    const result = await cms.createItems(collection_id, [{ name: "A" }, {}, { name: "C" }]);
+    expect(result.results.map((entry) => entry.status)).toEqual([
+      "succeeded",
+      "failed",
+      "succeeded",
+    ]);
+    expect(result.failed[0]).toMatchObject({ index: 1, error: expect.any(ValidationError) });
+    expect(result.succeeded.map((entry) => entry.result.name)).toEqual(["A", "C"]);
+  });
+
+  it("skips the remaining items after a failure with stopOnError", async () => {
+    const { cms, collection_id } = await setup();
+
+    const result = await cms.createItems(collection_id, [{ name: "A" }, {}, { name: "C" }], {
+      concurrency: 1,
+      stopOnError: true,
+    });
+    expect(result.results.map((entry) => entry.status)).toEqual(["succeeded", "failed", "skipped"]);
+    await expect(cms.getItemsByCollectionId(collection_id)).resolves.toHaveLength(1);
+  });
+
+  it("sends at most `concurrency` requests at the same time", async () => {
+    const server = createMockServer();
+    let active = 0;
+    let peak = 0;
+    const transport: AxiosAdapter = async (config) => {
+      active++;
+      peak = Math.max(peak, active);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      active--;
+      return server.transport(config);
+    };
+    const { cms, collection_id } = await setup(transport);
+    peak = 0;
+
+    const items = Array.from({ length: 8 }, (_, i) => ({ name: `Post ${i}` }));
+    await cms.createItems(collection_id, items, { concurrency: 3 });
+    expect(peak).toBe(3);
+  });
+
+  it("updates items by ID, skipping items that are not found", async () => {
+    const { cms, collection_id } = await setup();
+    const item = await cms.createItem(collection_id, { name: "A", views: 1 });
+
+    const result = await cms.updateItems(collection_id, [
+      { _id: String(item._id), fields: { views: 2 } },
+      { _id: "missing", fields: { views: 2 } },
+    ]);
+    expect(result.results.map((entry) => entry.status)).toEqual(["succeeded", "skipped"]);
+    await expect(cms.getItem(collection_id, String(item._id))).resolves.toMatchObject({
+      views: 2,
+    });
+  });
+
+  it("updates and deletes the items that match a filter", async () => {
+    const { cms, collection_id } = await setup();
+    await cms.createItems(collection_id, [
+      { name: "A", views: 1 },
+      { name: "B", views: 1 },
+      { name: "C", views: 5 },
+    ]);
+
+    const updated = await cms.updateItems<Post>(collection_id, { views: 1 }, { views: 3 });
+    expect(updated.succeeded).toHaveLength(2);
+    const deleted = await cms.deleteItems<Post>(collection_id, { views: { $gte: 3 } });
+    expect(deleted.succeeded).toHaveLength(3);
+    await expect(cms.getItemsByCollectionId(collection_id)).resolves.toEqual([]);
+  });
+});
@@ -0,0 +1,101 @@
+import { AxiosAdapter } from "axios";
+import init, { createMockServer, MemoryCacheStore } from "../index";
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Returns a transport answered by `server` that records the URLs of the GET requests it
+ * sends, and holds their responses for `readDelay` milliseconds
+ */
+const countingTransport = (server = createMockServer(), readDelay = 0) => {
+  const reads: string[] = [];
+  const transport: AxiosAdapter = async (config) => {
+    if ((config.method || "get").toUpperCase() !== "GET") return server.transport(config);
+    reads.push(config.url || "");
+    const res = await server.transport(config);
+    await delay(readDelay);
+    return res;
+  };
+  return { reads, server, transport };
+};
+
+describe("response cache", () => {
+  it("answers repeated reads from the cache", async () => {
+    const { reads, transport } = countingTransport();
+    const cms = init({ token: "test", transport, cache: true });
+    const database = await cms.createDatabase("Blog");
+
+    await cms.getDatabaseById(database._id);
+    const cached = await cms.getDatabaseById(database._id);
+    expect(cached).toMatchObject({ name: "Blog" });
+    expect(cached && cached.createdAt).toBeInstanceOf(Date);
+    expect(reads).toHaveLength(1);
+  });
+
+  it("invalidates the responses a write changes", async () => {
+    const { reads, transport } = countingTransport();
+    const cms = init({ token: "test", transport, cache: true });
+    const database = await cms.createDatabase("Blog");
+    const collection = await cms.createCollectionByDatabaseId(database._id, {
+      name: "Posts",
+      fields: [{ name: "Title", type: "PlainText" }],
+    });
+
+    await cms.getItemsByCollectionId(collection._id);
+    await cms.createItem(collection._id, { title: "Hello" });
+    const items = await cms.getItemsByCollectionId(collection._id);
+    expect(items.map((item) => item.title)).toEqual(["Hello"]);
+    expect(reads.filter((url) => url.endsWith("/items"))).toHaveLength(2);
+
+    await cms.updateDatabaseById(database._id, "Journal");
+    await expect(cms.getDatabaseById(database._id)).resolves.toMatchObject({ name: "Journal" });
+  });
+
+  it("does not cache a read sent before a write", async () => {
+    const { transport } = countingTransport(createMockServer(), 50);
+    const cms = init({ token: "test", transport, cache: true });
+    const database = await cms.createDatabase("Blog");
+
+    const read = cms.getDatabaseById(database._id);
+    await delay(10);
+    await cms.updateDatabaseById(database._id, "Journal");
+    await expect(read).resolves.toMatchObject({ name: "Blog" });
+    await expect(cms.getDatabaseById(database._id)).resolves.toMatchObject({ name: "Journal" });
+  });
+
+  it("keeps the responses of different tokens apart in a shared store", async () => {
+    const { reads, server, transport } = countingTransport();
+    const store = new MemoryCacheStore();
+    const alice = init({ token: "alice", transport, cache: { store } });
+    const bob = init({ token: "bob", transport, cache: { store } });
+    const database = await alice.createDatabase("Blog");
+
+    await alice.getDatabaseById(database._id);
+    await bob.getDatabaseById(database._id);
+    expect(reads).toHaveLength(2);
+    expect(store.keys().some((key) => key.includes("alice") || key.includes("bob"))).toBe(false);
+
+    // A write by one client invalidates the responses cached for the other
+    await bob.updateDatabaseById(database._id, "Journal");
+    expect(store.keys()).toEqual([]);
+
+    const shared = init({
+      token: "carol",
+      transport: server.transport,
+      cache: { store, namespace: "bob" },
+    });
+    await shared.getDatabaseById(database._id);
+    expect(store.keys()).toEqual([`bob:/databases/${database._id}`]);
+  });
+
+  it("clears the cached responses under a path", async () => {
+    const { reads, transport } = countingTransport();
+    const cms = init({ token: "test", transport, cache: true });
+    const database = await cms.createDatabase("Blog");
+
+    await cms.getDatabaseById(database._id);
+    await cms.clearCache("/databases");
+    await cms.getDatabaseById(database._id);
+    expect(reads).toHaveLength(2);
+  });
+});
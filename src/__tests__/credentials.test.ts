@@ -0,0 +1,48 @@
+import init, { AuthenticationError, CMSError, createMockServer, fromEnv } from "../index";
+
+describe("credentials", () => {
+  it("requires a token", () => {
+    expect(() => init()).toThrow(CMSError);
+  });
+
+  it("keeps the token of each client apart", async () => {
+    const server = createMockServer({ token: "secret" });
+    const valid = init({ token: "secret", transport: server.transport });
+    const invalid = init({ token: "wrong", transport: server.transport });
+
+    await expect(valid.getMe()).resolves.toMatchObject({ email: "test@example.com" });
+    await expect(invalid.getMe()).rejects.toBeInstanceOf(AuthenticationError);
+  });
+
+  it("calls a token provider before every request", async () => {
+    const tokens = ["first", "second"];
+    const sent: string[] = [];
+    const server = createMockServer();
+    const cms = init({
+      token: async () => tokens.shift() || "",
+      transport: (config) => {
+        sent.push(config.headers.Authorization);
+        return server.transport(config);
+      },
+    });
+
+    await cms.getMe();
+    await cms.getMe();
+    expect(sent).toEqual(["Bearer first", "Bearer second"]);
+  });
+
+  it("reads the token from an environment variable when a request is sent", async () => {
+    const cms = init({
+      token: fromEnv("CMS_TEST_TOKEN"),
+      transport: createMockServer({ token: "from-env" }).transport,
+    });
+
+    await expect(cms.getMe()).rejects.toThrow("Environment variable 'CMS_TEST_TOKEN' is not set");
+    process.env.CMS_TEST_TOKEN = "from-env";
+    try {
+      await expect(cms.getMe()).resolves.toMatchObject({ firstName: "Test" });
+    } finally {
+      delete process.env.CMS_TEST_TOKEN;
+    }
+  });
+});
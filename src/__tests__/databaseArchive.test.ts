@@ -0,0 +1,121 @@
+import { AxiosAdapter } from "axios";
+import init, { createMockServer, ImportDatabaseError, ValidationError } from "../index";
+
+/**
+ * Returns a transport answered by `server` that rejects every item created after the
+ * first `created` items with a 422 response
+ */
+const failingTransport = (created: number, server = createMockServer()) => {
+  let count = 0;
+  const transport: AxiosAdapter = async (config) => {
+    const creating = (config.method || "get").toUpperCase() === "POST";
+    if (creating && /\/items$/.test(config.url || "") && ++count > created) {
+      throw Object.assign(new Error("Request failed with status code 422"), {
+        config,
+        isAxiosError: true,
+        response: {
+          data: { status: "error", message: "Invalid item" },
+          status: 422,
+          statusText: "422",
+          headers: {},
+          config,
+        },
+      });
+    }
+    return server.transport(config);
+  };
+  return transport;
+};
+
+const exportBlog = async () => {
+  const cms = init({ token: "test", transport: createMockServer().transport });
+  const database = await cms.createDatabase("Blog");
+  const collection = await cms.createCollectionByDatabaseId(database._id, {
+    name: "Posts",
+    fields: [
+      { name: "Name", type: "PlainText" },
+      { name: "Slug", type: "PlainText" },
+    ],
+  });
+  await cms.createItem(collection._id, { name: "Hello World", slug: "first-post" });
+  await cms.createItem(collection._id, { name: "Second Post" });
+  return cms.exportDatabase(database._id);
+};
+
+describe("database archives", () => {
+  it("keeps the archived slugs of items when slugs are derived", async () => {
+    const archive = await exportBlog();
+    const cms = init({ token: "test", transport: createMockServer().transport, slugs: true });
+
+    const { collections } = await cms.importDatabase(archive);
+    const items = await cms.items(collections[archive.collections[0]._id]).all();
+    expect(items.map((item) => item.slug)).toEqual(["first-post", undefined]);
+  });
+
+  it("reports the IDs created before an import fails", async () => {
+    const archive = await exportBlog();
+    const cms = init({ token: "test", transport: failingTransport(1) });
+
+    const error = await cms.importDatabase(archive).catch((err) => err);
+    expect(error).toBeInstanceOf(ImportDatabaseError);
+    expect(error.error).toBeInstanceOf(ValidationError);
+    expect(error).toMatchObject({ statusCode: 422 });
+    expect(Object.keys(error.result.collections)).toEqual([archive.collections[0]._id]);
+    expect(Object.keys(error.result.items)).toEqual([String(archive.collections[0].items[0]._id)]);
+    await expect(cms.getDatabaseById(error.result.database._id)).resolves.toMatchObject({
+      name: "Blog",
+    });
+  });
+
+  it("imports required references to items created later", async () => {
+    const source = init({ token: "test", transport: createMockServer().transport });
+    const database = await source.createDatabase("Blog");
+    const people = await source.createCollectionByDatabaseId(database._id, {
+      name: "People",
+      fields: [{ name: "Name", type: "PlainText" }],
+    });
+    await source.createCollectionField(people._id, {
+      name: "Mentor",
+      type: "ItemRef",
+      required: true,
+      validations: { collectionId: people._id },
+    });
+    const ada = await source.createItem(people._id, { name: "Ada", mentor: "0".repeat(24) });
+    await source.patchItemById(people._id, String(ada._id), { mentor: ada._id });
+    const archive = await source.exportDatabase(database._id);
+    const cms = init({ token: "test", transport: createMockServer().transport });
+
+    const { collections, items } = await cms.importDatabase(archive);
+    const fields = await cms.getCollectionFields(collections[people._id]);
+    expect(fields!.find((field) => field.slug === "mentor")).toMatchObject({ required: true });
+    await expect(
+      cms.getItem(collections[people._id], items[String(ada._id)])
+    ).resolves.toMatchObject({ mentor: items[String(ada._id)] });
+  });
+
+  it("keeps primary fields and singular names", async () => {
+    const source = init({ token: "test", transport: createMockServer().transport });
+    const database = await source.createDatabase("Blog");
+    await source.createCollectionByDatabaseId(database._id, {
+      name: "People",
+      singularName: "Person",
+      fields: [
+        { name: "Name", type: "PlainText", primaryName: true },
+        { name: "Slug", type: "PlainText", primarySlug: true },
+      ],
+    });
+    const archive = await source.exportDatabase(database._id);
+    const cms = init({ token: "test", transport: createMockServer().transport });
+
+    const { collections } = await cms.importDatabase(archive);
+    const collection_id = collections[archive.collections[0]._id];
+    await expect(cms.getCollectionById(collection_id)).resolves.toMatchObject({
+      singularName: "Person",
+    });
+    const fields = await cms.getCollectionFields(collection_id);
+    expect(fields!.map((field) => [field.slug, !!field.primary])).toEqual([
+      ["name", true],
+      ["slug", true],
+    ]);
+  });
+});
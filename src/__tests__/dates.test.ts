@@ -0,0 +1,109 @@
+import { AxiosAdapter } from "axios";
+import init, { CMSConstruct, createMockServer, Item } from "../index";
+
+interface Event extends Item {
+  name: string;
+  starts?: Date;
+}
+
+interface RawEvent extends Item<string> {
+  name: string;
+  starts?: string;
+}
+
+const setup = async (options: CMSConstruct = {}) => {
+  const server = createMockServer();
+  const reads: string[] = [];
+  const bodies: any[] = [];
+  const transport: AxiosAdapter = (config) => {
+    if ((config.method || "get").toUpperCase() === "GET") reads.push(config.url || "");
+    else bodies.push(JSON.parse(config.data));
+    return server.transport(config);
+  };
+  const other = init({ token: "test", transport: server.transport });
+  const database = await other.createDatabase("Calendar");
+  const collection = await other.createCollectionByDatabaseId(database._id, {
+    name: "Events",
+    fields: [
+      { name: "Name", type: "PlainText" },
+      { name: "Starts", type: "Date" },
+    ],
+  });
+  await other.createItem<Event>(collection._id, {
+    name: "Launch",
+    starts: new Date("2021-05-01T10:00:00.000Z"),
+  });
+  const cms = init({ token: "test", transport, ...options });
+  return {
+    cms,
+    database_id: database._id,
+    collection_id: collection._id,
+    transport,
+    reads,
+    bodies,
+  };
+};
+
+describe("dates", () => {
+  it("parses the timestamps of databases, collections and items", async () => {
+    const { cms, database_id, collection_id } = await setup();
+
+    await expect(cms.getDatabaseById(database_id)).resolves.toMatchObject({
+      createdAt: expect.any(Date),
+    });
+    await expect(cms.getCollectionById(collection_id)).resolves.toMatchObject({
+      createdAt: expect.any(Date),
+      lastUpdated: expect.any(Date),
+    });
+    const [item] = await cms.getItemsByCollectionId<Event>(collection_id);
+    expect(item["created-on"]).toBeInstanceOf(Date);
+    expect(item["updated-on"]).toBeInstanceOf(Date);
+  });
+
+  it("leaves Date fields as strings without loading the fields of their collection", async () => {
+    const { cms, collection_id, reads } = await setup();
+
+    const [item] = await cms.getItemsByCollectionId<Event>(collection_id);
+    expect(item.starts).toBe("2021-05-01T10:00:00.000Z");
+    expect(reads.filter((url) => /\/fields$/.test(url))).toEqual([]);
+  });
+
+  it("parses Date fields once the fields of their collection are known", async () => {
+    const { cms, collection_id } = await setup();
+
+    await cms.getCollectionFields(collection_id);
+    const [item] = await cms.getItemsByCollectionId<Event>(collection_id);
+    expect(item.starts).toEqual(new Date("2021-05-01T10:00:00.000Z"));
+  });
+
+  it("loads the fields of a collection to parse its Date fields with loadDateFields", async () => {
+    const { cms, collection_id, reads } = await setup({ loadDateFields: true });
+
+    const [item] = await cms.getItemsByCollectionId<Event>(collection_id);
+    await cms.getItemsByCollectionId<Event>(collection_id);
+    expect(item.starts).toEqual(new Date("2021-05-01T10:00:00.000Z"));
+    expect(reads.filter((url) => /\/fields$/.test(url))).toHaveLength(1);
+  });
+
+  it("keeps timestamps and Date fields as ISO strings with rawDates", async () => {
+    const { collection_id, transport } = await setup();
+    const cms = init({ token: "test", transport, rawDates: true });
+
+    await cms.getCollectionFields(collection_id);
+    const collection = await cms.getCollectionById(collection_id);
+    const lastUpdated: string = collection!.lastUpdated;
+    expect(lastUpdated).toBe(new Date(lastUpdated).toISOString());
+    const [item] = await cms.getItemsByCollectionId<RawEvent>(collection_id);
+    const createdOn: string = item["created-on"];
+    expect(createdOn).toBe(new Date(createdOn).toISOString());
+    expect(item.starts).toBe("2021-05-01T10:00:00.000Z");
+  });
+
+  it("sends dates as ISO strings", async () => {
+    const { cms, collection_id, bodies } = await setup();
+
+    const starts = new Date("2021-01-01T00:00:00.000Z");
+    await cms.createItem<Event>(collection_id, { name: "Party", starts });
+    expect(bodies).toEqual([{ name: "Party", starts: "2021-01-01T00:00:00.000Z" }]);
+  });
+});
@@ -0,0 +1,78 @@
+import { AxiosAdapter } from "axios";
+import init, {
+  AuthenticationError,
+  CMSError,
+  createMockServer,
+  NetworkError,
+  NotFoundError,
+  PermissionError,
+  RateLimitError,
+  ValidationError,
+} from "../index";
+
+/** Returns a transport that answers every request with `status` and `message` */
+const failingTransport = (status: number, message: string): AxiosAdapter => async (config) => {
+  throw Object.assign(new Error(`Request failed with status code ${status}`), {
+    config,
+    isAxiosError: true,
+    response: {
+      data: { status: "fail", message },
+      status,
+      statusText: String(status),
+      headers: {},
+      config,
+    },
+  });
+};
+
+describe("error mapping", () => {
+  it.each([
+    [400, "Invalid _id: abc", NotFoundError],
+    [400, "A database must have a name", ValidationError],
+    [401, "You are not logged in!", AuthenticationError],
+    [403, "Not allowed", PermissionError],
+    [404, "Not found", NotFoundError],
+    [422, "Invalid item", ValidationError],
+    [429, "Slow down", RateLimitError],
+    [500, "Server error", CMSError],
+  ])("maps a %i response to its error class", async (status, message, ErrorClass) => {
+    const cms = init({ token: "test", transport: failingTransport(status, message), retry: false });
+
+    const error = await cms.getMe().catch((err) => err);
+    expect(error).toBeInstanceOf(ErrorClass);
+    expect(error).toMatchObject({
+      message,
+      statusCode: status,
+      method: "GET",
+      path: "/users/me",
+      payload: { status: "fail", message },
+    });
+  });
+
+  it("maps a request without a response to a NetworkError", async () => {
+    const transport: AxiosAdapter = async () => {
+      throw new Error("connect ECONNREFUSED");
+    };
+    const cms = init({ token: "test", transport, retry: false });
+
+    await expect(cms.getMe()).rejects.toBeInstanceOf(NetworkError);
+  });
+
+  it("resolves to null when a resource being read or deleted is not found", async () => {
+    const cms = init({ token: "test", transport: createMockServer().transport });
+
+    await expect(cms.getDatabaseById("missing")).resolves.toBeNull();
+    await expect(cms.deleteDatabaseById("missing")).resolves.toBeNull();
+    await expect(
+      cms.createCollectionByDatabaseId("missing", { name: "Posts", fields: [] })
+    ).rejects.toBeInstanceOf(NotFoundError);
+  });
+
+  it("rejects a call without a required argument", async () => {
+    const cms = init({ token: "test", transport: createMockServer().transport });
+
+    await expect(cms.getDatabaseById("")).rejects.toThrow(
+      "Argument 'database_id' is required but was not present"
+    );
+  });
+});
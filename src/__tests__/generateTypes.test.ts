@@ -0,0 +1,89 @@
+import init, { createMockServer, generateTypesFromSchemas } from "../index";
+
+const setup = async () => {
+  const cms = init({ token: "test", transport: createMockServer().transport });
+  const database = await cms.createDatabase("Blog");
+  const authors = await cms.createCollectionByDatabaseId(database._id, {
+    name: "Authors",
+    fields: [{ name: "Name", type: "PlainText", required: true }],
+  });
+  await cms.createCollectionByDatabaseId(database._id, {
+    name: "Blog Posts",
+    fields: [
+      { name: "Title", type: "PlainText", required: true, helpText: "Shown in */ lists" },
+      { name: "Body", type: "RichText" },
+      { name: "Views", type: "Number" },
+      {
+        name: "Status",
+        type: "Option",
+        validations: { options: ["draft", "live"] },
+      },
+      { name: "Author", type: "ItemRef", validations: { collectionId: authors._id } },
+      { name: "Co Authors", type: "ItemRefMulti", validations: { collectionId: authors._id } },
+    ],
+  });
+  return { cms, database_id: database._id };
+};
+
+describe("type generation", () => {
+  it("emits an interface for the items of each collection", async () => {
+    const { cms, database_id } = await setup();
+
+    const source = await cms.generateTypes(database_id);
+    expect(source).toBe(
+      [
+        "// This file was generated by cms-database-sdk. Do not edit it by hand.",
+        'import { Item, RichText } from "cms-database-sdk";',
+        "",
+        '/** An item in the "Authors" collection */',
+        "export interface Author extends Item {",
+        "  name: string;",
+        "}",
+        "",
+        '/** An item in the "Blog Posts" collection */',
+        "export interface BlogPost extends Item {",
+        "  /** Shown in *\\/ lists */",
+        "  title: string;",
+        "  body?: RichText;",
+        "  views?: number;",
+        '  status?: "draft" | "live";',
+        "  author?: string;",
+        '  "co-authors"?: string[];',
+        "}",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("types references as the referenced interface when asked to", async () => {
+    const { cms, database_id } = await setup();
+
+    const source = await cms.generateTypes(database_id, {
+      references: "type",
+      importFrom: "../sdk",
+    });
+    expect(source).toContain('import { Item, RichText } from "../sdk";');
+    expect(source).toContain("  author?: string | Author;");
+    expect(source).toContain('  "co-authors"?: Array<string | Author>;');
+  });
+
+  it("gives collections with the same name different interface names", () => {
+    const collection = (_id: string, name: string) => ({
+      _id,
+      name,
+      singularName: name,
+      slug: _id,
+      createdAt: new Date(),
+      lastUpdated: new Date(),
+    });
+
+    const source = generateTypesFromSchemas([
+      { collection: collection("a", "Item"), fields: [] },
+      { collection: collection("b", "2 Posts"), fields: [] },
+      { collection: collection("c", "2 Posts"), fields: [] },
+    ]);
+    expect(source).toContain("export interface Item2 extends Item {");
+    expect(source).toContain("export interface _2Posts extends Item {");
+    expect(source).toContain("export interface _2Posts2 extends Item {");
+  });
+});
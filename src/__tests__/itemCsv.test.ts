@@ -0,0 +1,108 @@
+import init, { createMockServer, Item } from "../index";
+
+interface Post extends Item {
+  name: string;
+  slug?: string;
+  views?: number;
+  published?: boolean;
+  status?: string;
+  tags?: string[];
+}
+
+const setup = async () => {
+  const cms = init({ token: "test", transport: createMockServer().transport });
+  const database = await cms.createDatabase("Blog");
+  const tags = await cms.createCollectionByDatabaseId(database._id, {
+    name: "Tags",
+    fields: [{ name: "Name", type: "PlainText" }],
+  });
+  const collection = await cms.createCollectionByDatabaseId(database._id, {
+    name: "Posts",
+    fields: [
+      { name: "Name", type: "PlainText", required: true },
+      { name: "Slug", type: "PlainText" },
+      { name: "Views", type: "Number" },
+      { name: "Published", type: "Bool" },
+      { name: "Status", type: "Option", validations: { options: ["draft", "live"] } },
+      { name: "Tags", type: "ItemRefMulti", validations: { collectionId: tags._id } },
+    ],
+  });
+  const news = await cms.createItem(tags._id, { name: "News" });
+  const tech = await cms.createItem(tags._id, { name: "Tech" });
+  return { cms, collection_id: collection._id, tag_ids: [String(news._id), String(tech._id)] };
+};
+
+describe("item CSV", () => {
+  it("coerces each cell to the type of its field", async () => {
+    const { cms, collection_id, tag_ids } = await setup();
+
+    const csv = ["name,views,published,status,tags", `Hello,3,yes,Live,${tag_ids.join(";")}`].join(
+      "\n"
+    );
+    const { created, errors } = await cms.importItemsCsv<Post>(collection_id, csv);
+    expect(errors).toEqual([]);
+    expect(created[0]).toMatchObject({
+      name: "Hello",
+      views: 3,
+      published: true,
+      status: "live",
+      tags: tag_ids,
+    });
+  });
+
+  it("reports the rows that fail instead of stopping the import", async () => {
+    const { cms, collection_id } = await setup();
+
+    const csv = ["name,views,status", "A,1,draft", "B,many,draft", ",2,draft", "D,4,gone"].join(
+      "\n"
+    );
+    const { created, errors } = await cms.importItemsCsv<Post>(collection_id, csv);
+    expect(created.map((item) => item.name)).toEqual(["A"]);
+    expect(errors.map((error) => [error.row, error.fieldErrors.map((e) => e.rule)])).toEqual([
+      [3, ["type"]],
+      [4, ["required"]],
+      [5, ["type"]],
+    ]);
+  });
+
+  it("updates the items that match the upsertBy column", async () => {
+    const { cms, collection_id } = await setup();
+    await cms.createItem<Post>(collection_id, { name: "Old", slug: "first", views: 1 });
+
+    const csv = ["slug,name,views", "first,First,2", "second,Second,3"].join("\n");
+    const { created, updated } = await cms.importItemsCsv<Post>(collection_id, csv, {
+      upsertBy: "slug",
+    });
+    expect(updated.map((item) => [item.slug, item.views])).toEqual([["first", 2]]);
+    expect(created.map((item) => item.slug)).toEqual(["second"]);
+    await expect(cms.items(collection_id).all()).resolves.toHaveLength(2);
+  });
+
+  it("reports rows that repeat the upsertBy value of an earlier row", async () => {
+    const { cms, collection_id } = await setup();
+
+    const csv = ["slug,name", "first,First", "second,Second", "first,Again"].join("\n");
+    const { created, errors } = await cms.importItemsCsv<Post>(collection_id, csv, {
+      upsertBy: "slug",
+    });
+    expect(created.map((item) => item.name)).toEqual(["First", "Second"]);
+    expect(errors).toEqual([
+      { row: 4, message: "Row 4 has the same 'slug' as row 2", fieldErrors: [] },
+    ]);
+  });
+
+  it("exports items with a column per field slug", async () => {
+    const { cms, collection_id, tag_ids } = await setup();
+    const item = await cms.createItem<Post>(collection_id, {
+      name: "Hello, world",
+      published: false,
+      tags: tag_ids,
+    });
+
+    const csv = await cms.exportItemsCsv(collection_id, { fields: ["name", "published", "tags"] });
+    expect(csv.trim().split(/\r?\n/)).toEqual([
+      "_id,name,published,tags",
+      `${item._id},"Hello, world",false,${tag_ids.join(";")}`,
+    ]);
+  });
+});
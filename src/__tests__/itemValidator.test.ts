@@ -0,0 +1,103 @@
+import { AxiosAdapter } from "axios";
+import init, { CMSConstruct, createMockServer, ItemValidationError, validateItem } from "../index";
+
+const setup = async (options: CMSConstruct = {}) => {
+  const server = createMockServer({ validateItems: false });
+  const posts: string[] = [];
+  const transport: AxiosAdapter = (config) => {
+    if ((config.method || "get").toUpperCase() === "POST") posts.push(config.url || "");
+    return server.transport(config);
+  };
+  const cms = init({ token: "test", transport, validateItems: true, ...options });
+  const other = init({ token: "test", transport: server.transport });
+  const database = await cms.createDatabase("Blog");
+  const collection = await cms.createCollectionByDatabaseId(database._id, {
+    name: "Posts",
+    fields: [
+      { name: "Name", type: "PlainText", required: true, validations: { maxLength: 10 } },
+      { name: "Views", type: "Number", validations: { allowNegative: false } },
+    ],
+  });
+  posts.length = 0;
+  return { cms, other, collection_id: collection._id, posts };
+};
+
+describe("item validation", () => {
+  it("reports every field that fails validation", async () => {
+    const { cms, collection_id } = await setup();
+
+    const result = await cms.validateItem(collection_id, { views: -1, extra: true });
+    expect(result.valid).toBe(false);
+    expect(result.errors.map((error) => [error.field, error.rule])).toEqual([
+      ["name", "required"],
+      ["views", "allowNegative"],
+      ["extra", "unknown"],
+    ]);
+  });
+
+  it("only validates the fields present in a partial update", async () => {
+    const { cms, collection_id } = await setup();
+
+    await expect(
+      cms.validateItem(collection_id, { views: 3 }, { partial: true })
+    ).resolves.toEqual({ valid: true, errors: [] });
+  });
+
+  it("rejects invalid items without sending them", async () => {
+    const { cms, collection_id, posts } = await setup();
+
+    const error = await cms
+      .createItem(collection_id, { name: "A very long name" })
+      .catch((err) => err);
+    expect(error).toBeInstanceOf(ItemValidationError);
+    expect(error.fieldErrors).toMatchObject([{ field: "name", rule: "maxLength" }]);
+    expect(posts).toEqual([]);
+  });
+
+  it("validates data against fields without a client", () => {
+    expect(validateItem([], { name: "A" }, { allowUnknown: true })).toEqual({
+      valid: true,
+      errors: [],
+    });
+  });
+
+  it("loads the fields again once they expire", async () => {
+    const { cms, other, collection_id } = await setup();
+    await cms.createItem(collection_id, { name: "A" });
+    await other.createCollectionField(collection_id, { name: "Body", type: "PlainText" });
+
+    await expect(cms.createItem(collection_id, { name: "B", body: "Hi" })).rejects.toBeInstanceOf(
+      ItemValidationError
+    );
+    const now = Date.now();
+    const spy = jest.spyOn(Date, "now").mockReturnValue(now + 60001);
+    try {
+      await expect(
+        cms.createItem(collection_id, { name: "B", body: "Hi" })
+      ).resolves.toMatchObject({ body: "Hi" });
+    } finally {
+      spy.mockRestore();
+    }
+  });
+
+  it("loads the fields again after the cache is cleared", async () => {
+    const { cms, other, collection_id } = await setup();
+    await cms.createItem(collection_id, { name: "A" });
+    await other.createCollectionField(collection_id, { name: "Body", type: "PlainText" });
+
+    await cms.clearCache(`/collections/${collection_id}`);
+    await expect(cms.createItem(collection_id, { name: "B", body: "Hi" })).resolves.toMatchObject({
+      body: "Hi",
+    });
+  });
+
+  it("keeps the fields as long as the fields TTL of the response cache", async () => {
+    const { cms, other, collection_id } = await setup({ cache: { ttls: { fields: 0 } } });
+    await cms.createItem(collection_id, { name: "A" });
+    await other.createCollectionField(collection_id, { name: "Body", type: "PlainText" });
+
+    await expect(cms.createItem(collection_id, { name: "B", body: "Hi" })).resolves.toMatchObject({
+      body: "Hi",
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import { AxiosAdapter } from "axios";
+import init, { CMSError, createMockServer, NotFoundError } from "../index";
+
+const setup = () => {
+  const server = createMockServer();
+  const requests: { url?: string; params: any; headers: any }[] = [];
+  const transport: AxiosAdapter = (config) => {
+    requests.push({ url: config.url, params: config.params, headers: config.headers });
+    return server.transport(config);
+  };
+  return { cms: init({ token: "test", transport }), requests };
+};
+
+describe("middleware", () => {
+  it("sends the query and headers set before a request", async () => {
+    const { cms, requests } = setup();
+    cms.use({
+      beforeRequest: (context) => {
+        context.headers["X-Request-Id"] = "abc";
+        context.query.limit = 5;
+      },
+    });
+
+    await cms.getDatabases();
+    expect(requests[0].headers).toMatchObject({ "X-Request-Id": "abc" });
+    expect(requests[0].params).toMatchObject({ limit: 5 });
+  });
+
+  it("runs hooks in the order they were added and replaces responses", async () => {
+    const { cms } = setup();
+    const calls: string[] = [];
+    cms.use({
+      beforeRequest: () => void calls.push("first"),
+      afterResponse: (_context, response) => ({
+        ...response,
+        data: { ...response.data, user: { ...response.data.user, firstName: "Replaced" } },
+      }),
+    });
+    const remove = cms.use({ beforeRequest: () => void calls.push("second") });
+
+    await expect(cms.getMe()).resolves.toMatchObject({ firstName: "Replaced" });
+    remove();
+    await cms.getMe();
+    expect(calls).toEqual(["first", "second", "first"]);
+  });
+
+  it("passes errors to onError and throws the error it returns", async () => {
+    const { cms } = setup();
+    const seen: CMSError[] = [];
+    cms.use({
+      onError: (context, error) => {
+        seen.push(error);
+        return new CMSError(`${context.method} ${context.path} failed`);
+      },
+    });
+
+    await expect(
+      cms.createCollectionByDatabaseId("0".repeat(24), { name: "Posts", fields: [] })
+    ).rejects.toThrow(`POST /collections failed`);
+    expect(seen[0]).toBeInstanceOf(NotFoundError);
+  });
+
+  it("wraps other errors once, keeping the original as the cause", async () => {
+    const { cms } = setup();
+    const failure = new TypeError("Broken hook");
+    const seen: CMSError[] = [];
+    cms.use({
+      beforeRequest: () => {
+        throw failure;
+      },
+    });
+    cms.use({ onError: (_context, error) => void seen.push(error) });
+    cms.use({ onError: (_context, error) => void seen.push(error) });
+
+    const error = await cms.getMe().catch((err) => err);
+    expect(error).toBeInstanceOf(CMSError);
+    expect(error).toMatchObject({ message: "Broken hook", cause: failure });
+    expect(seen).toEqual([error, error]);
+    expect(seen[0]).toBe(seen[1]);
+  });
+});
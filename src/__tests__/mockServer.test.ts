@@ -0,0 +1,106 @@
+import init, { createMockServer, Item } from "../index";
+
+interface Post extends Item {
+  name: string;
+  published?: string;
+}
+
+/** Returns a client that rejects every response that does not match its schema */
+const setup = () => {
+  const server = createMockServer({
+    users: [{ email: "editor@example.com", firstName: "Ed", lastName: "Itor" }],
+  });
+  const cms = init({ token: "test", transport: server.transport, validateResponses: "strict" });
+  return { cms, server };
+};
+
+describe("mock server", () => {
+  it("answers user, database and sharing routes with the shapes of the API", async () => {
+    const { cms } = setup();
+
+    await expect(cms.getMe()).resolves.toMatchObject({ email: "test@example.com" });
+    const database = await cms.createDatabase("Blog");
+    await expect(cms.getDatabases()).resolves.toHaveLength(1);
+    await expect(cms.getDatabaseById(database._id)).resolves.toMatchObject({ name: "Blog" });
+    await expect(cms.updateDatabaseById(database._id, "News")).resolves.toMatchObject({
+      name: "News",
+    });
+
+    const shared = await cms.shareDatabase(database._id, "editor@example.com", "viewer");
+    expect(shared).toMatchObject({ type: "member", member: { role: "viewer" } });
+    const invited = await cms.shareDatabase(database._id, "new@example.com", "editor");
+    expect(invited).toMatchObject({ type: "invitation", invitation: { role: "editor" } });
+
+    const members = await cms.getDatabaseMembers(database._id);
+    const editor = members!.find((member) => member.email === "editor@example.com")!;
+    await expect(
+      cms.updateDatabaseMemberRole(database._id, editor.user_id, "editor")
+    ).resolves.toMatchObject({ role: "editor" });
+    const invitations = await cms.getDatabaseInvitations(database._id);
+    await expect(
+      cms.cancelDatabaseInvitation(database._id, String(invitations![0]._id))
+    ).resolves.toMatchObject({ email: "new@example.com" });
+    const transferred = await cms.transferDatabaseOwnership(database._id, editor.user_id);
+    expect(transferred!.map((member) => [member.email, member.role])).toEqual([
+      ["test@example.com", "editor"],
+      ["editor@example.com", "owner"],
+    ]);
+    await expect(cms.deleteDatabaseById(database._id)).resolves.toMatchObject({
+      databasesDeleted: 1,
+    });
+  });
+
+  it("answers member removal with the shape of the API", async () => {
+    const { cms, server } = setup();
+    const database = await cms.createDatabase("Blog");
+    await cms.shareDatabase(database._id, "editor@example.com", "viewer");
+
+    const { user_id } = server.getMembers(database._id)[1];
+    await expect(cms.revokeDatabaseAccess(database._id, user_id)).resolves.toMatchObject({
+      email: "editor@example.com",
+    });
+  });
+
+  it("answers collection, field, item and asset routes with the shapes of the API", async () => {
+    const { cms } = setup();
+    const database = await cms.createDatabase("Blog");
+
+    const collection = await cms.createCollectionByDatabaseId(database._id, {
+      name: "Posts",
+      fields: [{ name: "Name", type: "PlainText", required: true }],
+    });
+    await expect(cms.getCollectionsByDatabaseId(database._id)).resolves.toHaveLength(1);
+    await expect(cms.getCollectionById(collection._id)).resolves.toMatchObject({ name: "Posts" });
+    await cms.updateCollectionById(collection._id, { name: "Articles" });
+
+    const field = await cms.createCollectionField(collection._id, {
+      name: "Published",
+      type: "PlainText",
+    });
+    await expect(cms.getCollectionFields(collection._id)).resolves.toHaveLength(2);
+    await cms.getCollectionField(collection._id, String(field._id));
+    await cms.updateCollectionField(collection._id, String(field._id), { helpText: "When" });
+
+    const item = await cms.createItem<Post>(collection._id, { name: "Hello", published: "now" });
+    const item_id = String(item._id);
+    await expect(cms.getItemsByCollectionId<Post>(collection._id)).resolves.toHaveLength(1);
+    await cms.getItem<Post>(collection._id, item_id);
+    await cms.patchItemById<Post>(collection._id, item_id, { name: "Hi" });
+    await cms.putItemById<Post>(collection._id, item_id, { name: "Hey" });
+    await expect(
+      cms.deleteCollectionField(collection._id, String(field._id))
+    ).resolves.toMatchObject({ fieldDeleted: true });
+    await cms.deleteItemById(collection._id, item_id);
+
+    const asset = await cms.uploadAsset(database._id, Buffer.from("hello"), {
+      fileName: "hello.txt",
+      mimeType: "text/plain",
+    });
+    await expect(cms.getAssets(database._id)).resolves.toHaveLength(1);
+    await cms.getAssetById(String(asset._id));
+    await cms.deleteAssetById(String(asset._id));
+    await expect(cms.deleteCollectionById(collection._id)).resolves.toMatchObject({
+      collectionsDeleted: 1,
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import init, { createMockServer, Item } from "../index";
+
+interface Post extends Item {
+  name: string;
+  views: number;
+}
+
+const setup = async () => {
+  const cms = init({ token: "test", transport: createMockServer().transport });
+  const database = await cms.createDatabase("Blog");
+  const collection = await cms.createCollectionByDatabaseId(database._id, {
+    name: "Posts",
+    fields: [
+      { name: "Name", type: "PlainText" },
+      { name: "Views", type: "Number" },
+    ],
+  });
+  const Post = await cms.model<Post>("Post", collection._id);
+  return { cms, collection_id: collection._id, Post };
+};
+
+describe("model statics", () => {
+  it("creates items and finds them by ID and filter", async () => {
+    const { Post } = await setup();
+    const first = await Post.create({ name: "First", views: 10 });
+    await Post.create([{ name: "Second", views: 20 }]);
+
+    await expect(Post.findById(String(first._id))).resolves.toMatchObject({ name: "First" });
+    await expect(Post.findOne({ views: { $gte: 15 } })).resolves.toMatchObject({
+      name: "Second",
+    });
+    await expect(Post.exists({ name: "Third" })).resolves.toBe(false);
+  });
+
+  it("finds the items of every page unless a limit or page is set", async () => {
+    const { Post } = await setup();
+    await Post.insertMany(
+      Array.from({ length: 120 }, (_, i) => ({ name: `Post ${i}`, views: i })),
+      { concurrency: 10 }
+    );
+
+    await expect(Post.find()).resolves.toHaveLength(120);
+    await expect(Post.find({ views: { $lt: 110 } })).resolves.toHaveLength(110);
+    await expect(Post.find().limit(5)).resolves.toHaveLength(5);
+    await expect(Post.find().page(2)).resolves.toHaveLength(20);
+  });
+
+  it("returns the item before or after an update", async () => {
+    const { Post } = await setup();
+    await Post.create({ name: "First", views: 1 });
+
+    await expect(Post.findOneAndUpdate({ name: "First" }, { views: 2 })).resolves.toMatchObject({
+      views: 1,
+    });
+    await expect(
+      Post.findOneAndUpdate({ name: "First" }, { views: 3 }, { new: true })
+    ).resolves.toMatchObject({ views: 3 });
+    await expect(Post.findOneAndUpdate({ name: "Missing" }, { views: 4 })).resolves.toBeNull();
+  });
+
+  it("updates and deletes the items that match a filter", async () => {
+    const { Post } = await setup();
+    await Post.insertMany([
+      { name: "A", views: 1 },
+      { name: "B", views: 1 },
+      { name: "C", views: 5 },
+    ]);
+
+    await expect(Post.updateMany({ views: 1 }, { views: 2 })).resolves.toEqual({
+      matchedCount: 2,
+      modifiedCount: 2,
+    });
+    await expect(Post.deleteMany({ views: 2 })).resolves.toEqual({ deletedCount: 2 });
+    await expect(Post.deleteOne({ name: "Missing" })).resolves.toEqual({ deletedCount: 0 });
+    expect((await Post.find()).map((post) => post.name)).toEqual(["C"]);
+  });
+
+  it("saves new and changed documents", async () => {
+    const { Post } = await setup();
+    const post = new Post({ name: "Draft", views: 0 });
+
+    await post.save();
+    expect(post._id).toBeDefined();
+    post.views = 7;
+    await post.save();
+    await expect(Post.findById(String(post._id))).resolves.toMatchObject({ views: 7 });
+    await post.deleteOne();
+    await expect(Post.findById(String(post._id))).resolves.toBeNull();
+  });
+});
+
+describe("model factory", () => {
+  it("names the model class and modelName after the name argument", async () => {
+    const { Post } = await setup();
+
+    expect(Post.name).toBe("Post");
+    expect(Post.modelName).toBe("Post");
+  });
+
+  it("binds each model to its own client and collection", async () => {
+    const blog = await setup();
+    const other = await setup();
+    await blog.Post.create({ name: "Hello", views: 1 });
+
+    expect(blog.Post.collection_id).toBe(blog.collection_id);
+    expect(other.Post.client).toBe(other.cms);
+    await expect(other.Post.find()).resolves.toEqual([]);
+  });
+});
@@ -0,0 +1,70 @@
+import init, { createMockServer, Paginator, Query } from "../index";
+
+/** A paginator over `total` numbers that records the pages it requests */
+const numbers = (total: number) => {
+  const requested: number[] = [];
+  const paginator = new Paginator<number>(async (query) => {
+    const { page = 1, limit = 100 } = query.getOptions();
+    requested.push(page);
+    const data = Array.from({ length: total }, (_, i) => i).slice((page - 1) * limit, page * limit);
+    return { results: data.length, page, limit, data };
+  });
+  return { paginator, requested };
+};
+
+describe("paginator", () => {
+  it("requests pages until one is not full", async () => {
+    const { paginator, requested } = numbers(25);
+
+    await expect(paginator.all({ limit: 10 })).resolves.toHaveLength(25);
+    expect(requested).toEqual([1, 2, 3]);
+  });
+
+  it("stops at an empty page when the last page is full", async () => {
+    const { paginator, requested } = numbers(20);
+
+    await expect(paginator.all(new Query().limit(10))).resolves.toHaveLength(20);
+    expect(requested).toEqual([1, 2, 3]);
+  });
+
+  it("starts at the page of the query and iterates one result at a time", async () => {
+    const { paginator, requested } = numbers(30);
+    const results: number[] = [];
+
+    for await (const n of paginator.iterate({ limit: 10, page: 2 })) {
+      results.push(n);
+      if (n === 15) break;
+    }
+    expect(results).toEqual([10, 11, 12, 13, 14, 15]);
+    expect(requested).toEqual([2]);
+  });
+
+  it("returns a single page with its metadata", async () => {
+    const { paginator } = numbers(30);
+
+    await expect(paginator.page({ limit: 10, page: 3 })).resolves.toMatchObject({
+      results: 10,
+      page: 3,
+      limit: 10,
+    });
+  });
+
+  it("walks the databases, collections and items of the client", async () => {
+    const cms = init({ token: "test", transport: createMockServer().transport });
+    const database = await cms.createDatabase("Blog");
+    await cms.createDatabase("Shop");
+    const collection = await cms.createCollectionByDatabaseId(database._id, {
+      name: "Posts",
+      fields: [{ name: "Name", type: "PlainText" }],
+    });
+    for (const name of ["A", "B", "C"]) await cms.createItem(collection._id, { name });
+
+    await expect(cms.databases().all({ limit: 1 })).resolves.toHaveLength(2);
+    await expect(cms.collections(database._id).all()).resolves.toMatchObject([{ name: "Posts" }]);
+    const pages: number[] = [];
+    for await (const page of cms.items(collection._id).pages({ limit: 2 })) {
+      pages.push(page.data.length);
+    }
+    expect(pages).toEqual([2, 1]);
+  });
+});
@@ -0,0 +1,99 @@
+import { AxiosAdapter } from "axios";
+import init, { createMockServer, Item, Query } from "../index";
+
+interface Post extends Item {
+  title: string;
+  author?: any;
+  tags?: any[];
+}
+
+const setup = async () => {
+  const server = createMockServer();
+  const reads: string[] = [];
+  const transport: AxiosAdapter = (config) => {
+    if ((config.method || "get").toUpperCase() === "GET") reads.push(config.url || "");
+    return server.transport(config);
+  };
+  const cms = init({ token: "test", transport });
+  const database = await cms.createDatabase("Blog");
+  const create = (name: string, fields: any[]) =>
+    cms.createCollectionByDatabaseId(database._id, { name, fields });
+  const companies = await create("Companies", [{ name: "Name", type: "PlainText" }]);
+  const authors = await create("Authors", [
+    { name: "Name", type: "PlainText" },
+    { name: "Email", type: "Email" },
+    { name: "Company", type: "ItemRef", validations: { collectionId: companies._id } },
+  ]);
+  const tags = await create("Tags", [{ name: "Name", type: "PlainText" }]);
+  const posts = await create("Posts", [
+    { name: "Title", type: "PlainText" },
+    { name: "Author", type: "ItemRef", validations: { collectionId: authors._id } },
+    { name: "Tags", type: "ItemRefMulti", validations: { collectionId: tags._id } },
+  ]);
+
+  const acme = await cms.createItem(companies._id, { name: "Acme" });
+  const ada = await cms.createItem(authors._id, {
+    name: "Ada",
+    email: "ada@example.com",
+    company: acme._id,
+  });
+  const news = await cms.createItem(tags._id, { name: "News" });
+  const tech = await cms.createItem(tags._id, { name: "Tech" });
+  await cms.createItem(posts._id, { title: "First", author: ada._id, tags: [news._id, tech._id] });
+  await cms.createItem(posts._id, {
+    title: "Second",
+    author: ada._id,
+    tags: [tech._id, "0".repeat(24)],
+  });
+  reads.length = 0;
+  return { cms, posts_id: posts._id, reads };
+};
+
+describe("populate", () => {
+  it("replaces references with the referenced items, one request per field", async () => {
+    const { cms, posts_id, reads } = await setup();
+
+    const query = new Query<Post>().sort("title").populate("author tags");
+    const [first, second] = await cms.getItemsByCollectionId<Post>(posts_id, query);
+    expect(first.author).toMatchObject({ name: "Ada" });
+    expect(first.tags!.map((tag) => tag.name)).toEqual(["News", "Tech"]);
+    expect(second.tags!.map((tag) => tag.name)).toEqual(["Tech"]);
+    expect(reads.filter((url) => /\/items$/.test(url))).toHaveLength(3);
+  });
+
+  it("populates nested references and limits populated items to selected fields", async () => {
+    const { cms, posts_id } = await setup();
+
+    const query = new Query<Post>().populate({
+      path: "author",
+      select: ["name"],
+      populate: "company",
+    });
+    const [post] = await cms.getItemsByCollectionId<Post>(posts_id, query);
+    expect(post.author).toEqual({
+      _id: expect.any(String),
+      name: "Ada",
+      company: expect.objectContaining({ name: "Acme" }),
+    });
+  });
+
+  it("selects populated paths that the selection leaves out", async () => {
+    const { cms, posts_id } = await setup();
+
+    const query = new Query<Post>().select(["title"]).populate("author.company");
+    const [post] = await cms.getItemsByCollectionId<Post>(posts_id, query);
+    expect(post.author).toMatchObject({ name: "Ada", company: { name: "Acme" } });
+    expect(post.tags).toBeUndefined();
+  });
+
+  it("populates the documents of a model and saves references as IDs", async () => {
+    const { cms, posts_id } = await setup();
+    const Post = await cms.model<Post>("Post", posts_id);
+
+    const post = await Post.findOne({ title: "First" }).populate("author");
+    expect(post!.author).toMatchObject({ name: "Ada" });
+    const author_id = post!.author._id;
+    await post!.save();
+    expect(post!.author).toBe(author_id);
+  });
+});
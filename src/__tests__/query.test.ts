@@ -0,0 +1,81 @@
+import { createServer } from "http";
+import { AddressInfo } from "net";
+import init, { createMockServer, Query } from "../index";
+
+describe("query serialization", () => {
+  it("serializes conditions, sorting, selection and pagination", () => {
+    const query = new Query({ name: "Hello", rating: { $gte: 3, $lt: 5 } })
+      .sort({ "created-on": -1, name: 1 })
+      .select(["name", "rating"])
+      .limit(20)
+      .page(2);
+
+    expect(query.toQueryParams()).toEqual({
+      name: "Hello",
+      "rating[gte]": 3,
+      "rating[lt]": 5,
+      sort: "-created-on,name",
+      fields: "name,rating",
+      limit: 20,
+      page: 2,
+    });
+  });
+
+  it("serializes dates and lists of values", () => {
+    const date = new Date("2021-05-01T00:00:00.000Z");
+    const query = new Query().where("published").gte(date).where("title").in(["a,b", "c"]);
+
+    expect(query.toQueryParams()).toEqual({
+      "published[gte]": "2021-05-01T00:00:00.000Z",
+      "title[in]": ["a,b", "c"],
+    });
+  });
+
+  it("rejects operator methods called before where() and unknown operators", () => {
+    expect(() => new Query<any, unknown, any>().gt(1)).toThrow("gt() must be called after where()");
+    expect(() => new Query({ rating: { $regex: "a" } })).toThrow(
+      "Unsupported query operator '$regex' on 'rating'"
+    );
+  });
+
+  it("keeps a clone apart from the query it was cloned from", () => {
+    const query = new Query({ rating: 3 }).limit(10);
+    query.clone().where("name").equals("Hello").limit(5);
+
+    expect(query.toQueryParams()).toEqual({ rating: 3, limit: 10 });
+  });
+
+  it("sends lists of values as repeated parameters", async () => {
+    const urls: string[] = [];
+    const server = createServer((req, res) => {
+      urls.push(req.url || "");
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ status: "success", results: 0, items: [] }));
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      const cms = init({ token: "test", endpoint: `http://127.0.0.1:${port}/api/v1` });
+      await cms.getItemsByCollectionId("posts", new Query().where("title").in(["a,b", "c"]));
+      expect(urls).toEqual(["/api/v1/collections/posts/items?title[in]=a,b&title[in]=c"]);
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+
+  it("matches values that contain commas", async () => {
+    const cms = init({ token: "test", transport: createMockServer().transport });
+    const database = await cms.createDatabase("Blog");
+    const collection = await cms.createCollectionByDatabaseId(database._id, {
+      name: "Posts",
+      fields: [{ name: "Title", type: "PlainText" }],
+    });
+    await cms.createItem(collection._id, { title: "Hello, World" });
+    await cms.createItem(collection._id, { title: "Hello" });
+
+    const query = new Query({ title: { $in: ["Hello, World"] } });
+    const items = await cms.getItemsByCollectionId(collection._id, query);
+    expect(items.map((item) => item.title)).toEqual(["Hello, World"]);
+  });
+});
@@ -0,0 +1,89 @@
+import { AxiosAdapter } from "axios";
+import init, { AbortError, CMSError, createMockServer, NotFoundError } from "../index";
+
+/** Returns a transport answered by the mock server after `delay` milliseconds */
+const slowTransport = (delay: number) => {
+  const server = createMockServer();
+  const urls: string[] = [];
+  const transport: AxiosAdapter = async (config) => {
+    urls.push(config.url || "");
+    await new Promise((resolve) => setTimeout(resolve, delay));
+    return server.transport(config);
+  };
+  return { transport, urls };
+};
+
+/** Calls `start` with a callback, and resolves with the arguments the callback receives */
+const callbackArgs = <T>(
+  start: (callback: (err: CMSError | null, data: T | null) => void) => void
+) =>
+  new Promise<[CMSError | null, T | null]>((resolve) => start((err, data) => resolve([err, data])));
+
+describe("request options", () => {
+  it("passes the result to a callback given in place of the options", async () => {
+    const cms = init({ token: "test", transport: createMockServer().transport });
+
+    const [err, user] = await callbackArgs((callback) => cms.getMe(callback));
+    expect(err).toBeNull();
+    expect(user).toMatchObject({ email: "test@example.com" });
+  });
+
+  it("passes null to the callback when a resource is not found", async () => {
+    const cms = init({ token: "test", transport: createMockServer().transport });
+
+    await expect(
+      callbackArgs((callback) => cms.getDatabaseById("0".repeat(24), {}, callback))
+    ).resolves.toEqual([null, null]);
+  });
+
+  it("passes the error of a failed call to the callback", async () => {
+    const cms = init({ token: "test", transport: createMockServer().transport });
+
+    const [err, data] = await callbackArgs((callback) =>
+      cms.createCollectionByDatabaseId("0".repeat(24), { name: "Posts", fields: [] }, callback)
+    );
+    expect(err).toBeInstanceOf(NotFoundError);
+    expect(data).toBeNull();
+  });
+
+  it("calls the callback after the promise settles", async () => {
+    const cms = init({ token: "test", transport: createMockServer().transport });
+    const order: string[] = [];
+
+    await callbackArgs((callback) =>
+      cms
+        .getMe((err, data) => {
+          order.push("callback");
+          callback(err, data);
+        })
+        .then(() => order.push("promise"))
+    );
+    expect(order).toEqual(["promise", "callback"]);
+  });
+
+  it("rejects without sending a request when the signal is already aborted", async () => {
+    const { transport, urls } = slowTransport(0);
+    const cms = init({ token: "test", transport });
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(cms.getMe({ signal: controller.signal })).rejects.toBeInstanceOf(AbortError);
+    expect(urls).toEqual([]);
+  });
+
+  it("aborts the request in flight and skips the requests after it", async () => {
+    const { transport, urls } = slowTransport(20);
+    const cms = init({ token: "test", transport });
+    const database = await cms.createDatabase("Blog");
+    await cms.createCollectionByDatabaseId(database._id, { name: "Posts", fields: [] });
+    urls.length = 0;
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 10);
+
+    await expect(
+      cms.exportDatabase(database._id, { signal: controller.signal })
+    ).rejects.toBeInstanceOf(AbortError);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(urls).toHaveLength(1);
+  });
+});
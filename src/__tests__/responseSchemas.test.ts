@@ -0,0 +1,86 @@
+import { AxiosAdapter } from "axios";
+import init, {
+  CMSConstruct,
+  createMockServer,
+  Query,
+  ResponseValidationError,
+  responseSchemas,
+} from "../index";
+
+/** Returns a client whose `/users/me` responses have `user` replaced by `user` */
+const withUser = (user: any, options: CMSConstruct = {}) => {
+  const server = createMockServer();
+  const transport: AxiosAdapter = async (config) => {
+    const response = await server.transport(config);
+    return /\/users\/me$/.test(config.url || "")
+      ? { ...response, data: { ...response.data, user } }
+      : response;
+  };
+  return init({ token: "test", transport, ...options });
+};
+
+describe("response schemas", () => {
+  it("rejects a response that does not match in strict mode", async () => {
+    const cms = withUser({ _id: 1, email: "a@example.com" }, { validateResponses: "strict" });
+
+    const error = await cms.getMe().catch((err) => err);
+    expect(error).toBeInstanceOf(ResponseValidationError);
+    expect(error.issues).toEqual([
+      { path: "user._id", expected: "string", received: "number" },
+      { path: "user.firstName", expected: "string", received: "undefined" },
+      { path: "user.lastName", expected: "string", received: "undefined" },
+    ]);
+    expect(error.message).toContain("expected string at 'user._id', got number");
+  });
+
+  it("reports mismatches to onValidationError and returns the response in warn mode", async () => {
+    const onValidationError = jest.fn();
+    const cms = withUser(null, { validateResponses: "warn", onValidationError });
+
+    await expect(cms.getMe()).resolves.toBeNull();
+    expect(onValidationError).toHaveBeenCalledWith(expect.any(ResponseValidationError));
+  });
+
+  it("skips the check by default", async () => {
+    const cms = withUser({ email: "a@example.com" });
+
+    await expect(cms.getMe()).resolves.toEqual({ email: "a@example.com" });
+  });
+
+  it("only requires the _id of items requested with a field selection", async () => {
+    const cms = init({
+      token: "test",
+      transport: createMockServer().transport,
+      validateResponses: "strict",
+    });
+    const database = await cms.createDatabase("Blog");
+    const collection = await cms.createCollectionByDatabaseId(database._id, {
+      name: "Posts",
+      fields: [{ name: "Name", type: "PlainText" }],
+    });
+    await cms.createItem(collection._id, { name: "Hello" });
+
+    const items = await cms.getItemsByCollectionId(collection._id, new Query().select(["name"]));
+    expect(items).toEqual([{ _id: expect.any(String), name: "Hello" }]);
+  });
+
+  it("accepts dates as ISO strings or Date objects", () => {
+    const invitation = {
+      _id: "a",
+      email: "a@example.com",
+      role: "viewer",
+      invitedBy: "b",
+    };
+    const check = (createdAt: any) =>
+      responseSchemas.APIDatabaseInvitationResponse(
+        { status: "success", invitation: { ...invitation, createdAt } },
+        ""
+      );
+
+    expect(check(new Date())).toEqual([]);
+    expect(check("2021-05-01T00:00:00.000Z")).toEqual([]);
+    expect(check("soon")).toEqual([
+      { path: "invitation.createdAt", expected: "date", received: "string" },
+    ]);
+  });
+});
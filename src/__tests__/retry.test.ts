@@ -0,0 +1,103 @@
+import { AxiosAdapter, AxiosRequestConfig } from "axios";
+import init, { AbortError, CMSError, RateLimitError } from "../index";
+
+const user = { _id: "user", email: "test@example.com", firstName: "Test", lastName: "User" };
+
+/**
+ * Returns a transport that fails with `status` the first `failures` times it is called,
+ * and the requests it received
+ */
+const flakyTransport = (
+  failures: number,
+  status = 503,
+  headers: { [name: string]: string } = {}
+) => {
+  const calls: AxiosRequestConfig[] = [];
+  const transport: AxiosAdapter = async (config) => {
+    calls.push(config);
+    if (calls.length <= failures) {
+      throw Object.assign(new Error(`Request failed with status code ${status}`), {
+        config,
+        isAxiosError: true,
+        response: {
+          data: { status: "error", message: "Try again later" },
+          status,
+          statusText: String(status),
+          headers,
+          config,
+        },
+      });
+    }
+    return {
+      data: { status: "success", user, database: { _id: "database", name: "Test" } },
+      status: 200,
+      statusText: "OK",
+      headers: {},
+      config,
+    };
+  };
+  return { calls, transport };
+};
+
+describe("retries", () => {
+  it("sends a GET again until it succeeds", async () => {
+    const { calls, transport } = flakyTransport(2);
+    const cms = init({ token: "test", transport, retry: { baseDelay: 1 } });
+
+    await expect(cms.getMe()).resolves.toMatchObject({ email: user.email });
+    expect(calls).toHaveLength(3);
+  });
+
+  it("gives up after maxAttempts", async () => {
+    const { calls, transport } = flakyTransport(5);
+    const cms = init({ token: "test", transport, retry: { baseDelay: 1, maxAttempts: 2 } });
+
+    await expect(cms.getMe()).rejects.toBeInstanceOf(CMSError);
+    expect(calls).toHaveLength(2);
+  });
+
+  it("does not send a POST again", async () => {
+    const { calls, transport } = flakyTransport(1);
+    const cms = init({ token: "test", transport, retry: { baseDelay: 1 } });
+
+    await expect(cms.createDatabase("Test")).rejects.toBeInstanceOf(CMSError);
+    expect(calls).toHaveLength(1);
+  });
+
+  it("calls onRetry before every retry", async () => {
+    const { transport } = flakyTransport(2);
+    const onRetry = jest.fn();
+    const cms = init({ token: "test", transport, retry: { baseDelay: 1, onRetry } });
+
+    await cms.getMe();
+    expect(onRetry.mock.calls.map(([info]) => info.attempt)).toEqual([1, 2]);
+  });
+
+  it("waits for Retry-After when it is shorter than maxDelay", async () => {
+    const { calls, transport } = flakyTransport(1, 429, { "retry-after": "0" });
+    const cms = init({ token: "test", transport, retry: { baseDelay: 1 } });
+
+    await expect(cms.getMe()).resolves.toMatchObject({ email: user.email });
+    expect(calls).toHaveLength(2);
+  });
+
+  it("fails fast when Retry-After is longer than maxDelay", async () => {
+    const { calls, transport } = flakyTransport(1, 429, { "retry-after": "3600" });
+    const cms = init({ token: "test", transport, retry: { maxDelay: 1000 } });
+
+    const error = await cms.getMe().catch((err) => err);
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.retryAfter).toBe(3600);
+    expect(calls).toHaveLength(1);
+  });
+
+  it("stops waiting when the call is aborted", async () => {
+    const { calls, transport } = flakyTransport(5);
+    const cms = init({ token: "test", transport, retry: { baseDelay: 60000, jitter: false } });
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 10);
+
+    await expect(cms.getMe({ signal: controller.signal })).rejects.toBeInstanceOf(AbortError);
+    expect(calls).toHaveLength(1);
+  });
+});
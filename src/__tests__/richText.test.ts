@@ -0,0 +1,60 @@
+import {
+  htmlToRichText,
+  markdownToRichText,
+  parseRichText,
+  RichTextDocument,
+  RichTextInline,
+  richTextToHtml,
+  richTextToMarkdown,
+} from "../index";
+
+/** A document with a paragraph of the inline nodes */
+const paragraph = (...children: RichTextInline[]): RichTextDocument => ({
+  type: "document",
+  children: [{ type: "paragraph", children }],
+});
+
+describe("rich text sanitizing", () => {
+  it("removes scripts, event handlers and unknown attributes from HTML", () => {
+    expect(
+      htmlToRichText(
+        '<p onclick="steal()">Hi <script>alert(1)</script><a href="https://example.com" target="_blank">there</a></p>'
+      )
+    ).toBe('<p>Hi <a href="https://example.com">there</a></p>');
+  });
+
+  it("keeps the text of links with unsafe URLs", () => {
+    expect(htmlToRichText('<p><a href="javascript:alert(1)">click</a></p>')).toBe("<p>click</p>");
+    expect(parseRichText('<p><a href=" JaVaScRiPt:alert(1)">click</a></p>')).toEqual(
+      paragraph({ type: "text", text: "click" })
+    );
+  });
+
+  it("drops links and images with unsafe URLs when rendering a node tree", () => {
+    const document = paragraph(
+      { type: "link", href: "javascript:alert(1)", children: [{ type: "text", text: "click" }] },
+      { type: "image", src: "data:text/html,<script>alert(1)</script>", alt: "" },
+      { type: "image", src: "/logo.png", alt: "Logo" }
+    );
+
+    expect(richTextToHtml(document)).toBe('<p>click<img src="/logo.png" alt="Logo"></p>');
+    expect(richTextToMarkdown(document)).toBe("click![Logo](/logo.png)");
+  });
+
+  it("drops unsafe URLs from Markdown", () => {
+    expect(markdownToRichText("[click](javascript:alert(1))")).toBe("<p>click</p>");
+    expect(markdownToRichText("Logo: ![x](javascript:alert(1))")).toBe("<p>Logo: </p>");
+  });
+
+  it("parses balanced parentheses in Markdown link destinations", () => {
+    expect(markdownToRichText("[wiki](https://en.wikipedia.org/wiki/Foo_(bar))")).toBe(
+      '<p><a href="https://en.wikipedia.org/wiki/Foo_(bar)">wiki</a></p>'
+    );
+  });
+
+  it("parses combined emphasis and indented code in Markdown", () => {
+    expect(markdownToRichText("***both***\n\n    const a = 1;")).toBe(
+      "<p><strong><em>both</em></strong></p>\n<pre><code>const a = 1;</code></pre>"
+    );
+  });
+});
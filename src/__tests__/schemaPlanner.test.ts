@@ -0,0 +1,138 @@
+import init, { CMSError, createMockServer, DatabaseSchema, describeChange } from "../index";
+
+const setup = async () => {
+  const cms = init({ token: "test", transport: createMockServer().transport });
+  const database = await cms.createDatabase("Blog");
+  const schema: DatabaseSchema = {
+    collections: [
+      {
+        name: "Posts",
+        slug: "posts",
+        fields: [
+          { name: "Title", type: "PlainText", validations: { minLength: 1, maxLength: 80 } },
+          { name: "Views", type: "PlainText" },
+        ],
+      },
+    ],
+  };
+  await cms.applySchema(database._id, schema);
+  const posts = await cms.getCollectionBySlug(database._id, "posts");
+  return { cms, database_id: database._id, collection_id: String(posts!._id), schema };
+};
+
+describe("schema planner", () => {
+  it("creates the collections of a schema, then plans no changes", async () => {
+    const { cms, database_id, collection_id, schema } = await setup();
+
+    const fields = await cms.getCollectionFields(collection_id);
+    expect(fields!.map((field) => field.name)).toEqual(["Title", "Views"]);
+    await expect(cms.planSchema(database_id, schema)).resolves.toEqual({
+      database_id,
+      changes: [],
+      unmanagedFields: [],
+    });
+  });
+
+  it("does not change the database on a dry run", async () => {
+    const { cms, database_id, collection_id, schema } = await setup();
+    schema.collections[0].fields.push({ name: "Body", type: "RichText" });
+
+    const result = await cms.applySchema(database_id, schema, { dryRun: true });
+    expect(result.applied).toEqual([]);
+    expect(result.plan.changes.map(describeChange)).toEqual(["Add field 'Body' to 'Posts'"]);
+    expect(await cms.getCollectionFields(collection_id)).toHaveLength(2);
+  });
+
+  it("renames a field by renamedFrom, keeping its values", async () => {
+    const { cms, database_id, collection_id, schema } = await setup();
+    const item = await cms.createItem(collection_id, { title: "Hello" });
+    schema.collections[0].fields[0] = { name: "Headline", type: "PlainText", renamedFrom: "Title" };
+
+    const plan = await cms.planSchema(database_id, schema);
+    expect(plan.changes.map(describeChange)).toEqual(["Update name of field 'Title' in 'Posts'"]);
+    await cms.applySchema(database_id, plan);
+    await expect(cms.getItem(collection_id, String(item._id))).resolves.toMatchObject({
+      title: "Hello",
+    });
+  });
+
+  it("deletes a renamed field without renamedFrom with prune, warning that its values are lost", async () => {
+    const { cms, database_id, schema } = await setup();
+    schema.collections[0].fields[1] = { name: "Hits", type: "PlainText" };
+
+    const plan = await cms.planSchema(database_id, schema, { prune: true });
+    expect(plan.changes.map(describeChange)).toEqual([
+      "Add field 'Hits' to 'Posts'",
+      "Delete field 'Views' from 'Posts' (its values are lost)",
+    ]);
+    expect(plan.unmanagedFields).toEqual([]);
+  });
+
+  it("leaves fields missing from the schema alone without prune, reporting them", async () => {
+    const { cms, database_id, collection_id, schema } = await setup();
+    schema.collections[0].fields.pop();
+
+    const { plan } = await cms.applySchema(database_id, schema);
+    expect(plan.changes).toEqual([]);
+    expect(plan.unmanagedFields).toMatchObject([{ collection_id, field: "Views" }]);
+    const fields = await cms.getCollectionFields(collection_id);
+    expect(fields!.map((field) => field.name)).toEqual(["Title", "Views"]);
+  });
+
+  it("plans a change of the primary field", async () => {
+    const { cms, database_id, collection_id, schema } = await setup();
+    schema.collections[0].fields[0].primaryName = true;
+
+    const { plan } = await cms.applySchema(database_id, schema);
+    expect(plan.changes.map(describeChange)).toEqual([
+      "Update primary of field 'Title' in 'Posts'",
+    ]);
+    const fields = await cms.getCollectionFields(collection_id);
+    expect(fields![0].primary).toBe(true);
+    await expect(cms.planSchema(database_id, schema)).resolves.toMatchObject({ changes: [] });
+  });
+
+  it("deletes and adds a field whose type changes", async () => {
+    const { cms, database_id, collection_id, schema } = await setup();
+    schema.collections[0].fields[1] = { name: "Views", type: "Number" };
+
+    const { plan } = await cms.applySchema(database_id, schema);
+    expect(plan.changes.map((change) => change.type)).toEqual(["deleteField", "addField"]);
+    const fields = await cms.getCollectionFields(collection_id);
+    expect(fields!.find((field) => field.name === "Views")).toMatchObject({ type: "Number" });
+  });
+
+  it("detects validations removed from a field", async () => {
+    const { cms, database_id, collection_id, schema } = await setup();
+    schema.collections[0].fields[0].validations = { maxLength: 80 };
+
+    await cms.applySchema(database_id, schema);
+    const fields = await cms.getCollectionFields(collection_id);
+    expect(fields![0].validations).toEqual({ maxLength: 80 });
+    await expect(cms.planSchema(database_id, schema)).resolves.toMatchObject({ changes: [] });
+  });
+
+  it("renames a collection by renamedFrom", async () => {
+    const { cms, database_id, collection_id, schema } = await setup();
+    schema.collections[0] = {
+      ...schema.collections[0],
+      name: "Articles",
+      slug: "articles",
+      renamedFrom: "posts",
+    };
+
+    await cms.applySchema(database_id, schema);
+    await expect(cms.getCollectionBySlug(database_id, "articles")).resolves.toMatchObject({
+      _id: collection_id,
+      name: "Articles",
+    });
+  });
+
+  it("rejects a plan made for another database", async () => {
+    const { cms, database_id, schema } = await setup();
+    const other = await cms.createDatabase("Other");
+
+    const plan = await cms.planSchema(database_id, schema);
+    await expect(cms.applySchema(other._id, plan)).rejects.toBeInstanceOf(CMSError);
+  });
+});
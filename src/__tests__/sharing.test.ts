@@ -0,0 +1,97 @@
+import init, { createMockServer, PermissionError, ValidationError } from "../index";
+
+const setup = async () => {
+  const server = createMockServer({
+    users: [{ email: "editor@example.com", firstName: "Ed", lastName: "Itor" }],
+  });
+  const cms = init({ token: "test", transport: server.transport });
+  const database = await cms.createDatabase("Blog");
+  return { cms, server, database_id: database._id };
+};
+
+describe("sharing", () => {
+  it("adds users with an account as members and invites other emails", async () => {
+    const { cms, database_id } = await setup();
+
+    await expect(
+      cms.shareDatabase(database_id, "editor@example.com", "editor")
+    ).resolves.toMatchObject({ type: "member", member: { email: "editor@example.com" } });
+    await expect(
+      cms.shareDatabase(database_id, "new@example.com", "viewer")
+    ).resolves.toMatchObject({ type: "invitation", invitation: { email: "new@example.com" } });
+
+    const members = await cms.getDatabaseMembers(database_id);
+    expect(members!.map((member) => [member.email, member.role])).toEqual([
+      ["test@example.com", "owner"],
+      ["editor@example.com", "editor"],
+    ]);
+    const invitations = await cms.getDatabaseInvitations(database_id);
+    expect(invitations!.map((invitation) => invitation.email)).toEqual(["new@example.com"]);
+  });
+
+  it("changes the role of a user the database is shared with again", async () => {
+    const { cms, database_id } = await setup();
+    await cms.shareDatabase(database_id, "editor@example.com", "editor");
+    await cms.shareDatabase(database_id, "new@example.com", "editor");
+
+    await cms.shareDatabase(database_id, "editor@example.com", "viewer");
+    await cms.shareDatabase(database_id, "new@example.com", "viewer");
+    const members = await cms.getDatabaseMembers(database_id);
+    expect(members).toHaveLength(2);
+    expect(members![1].role).toBe("viewer");
+    const invitations = await cms.getDatabaseInvitations(database_id);
+    expect(invitations!.map((invitation) => invitation.role)).toEqual(["viewer"]);
+  });
+
+  it("rejects sharing a database with its owner", async () => {
+    const { cms, database_id } = await setup();
+
+    await expect(
+      cms.shareDatabase(database_id, "test@example.com", "editor")
+    ).rejects.toBeInstanceOf(ValidationError);
+  });
+
+  it("transfers ownership, keeping the previous owner as an editor", async () => {
+    const { cms, server, database_id } = await setup();
+    await cms.shareDatabase(database_id, "editor@example.com", "viewer");
+    const { user_id } = server.getMembers(database_id)[1];
+
+    const members = await cms.transferDatabaseOwnership(database_id, user_id);
+    expect(members!.map((member) => member.role)).toEqual(["editor", "owner"]);
+    await expect(
+      cms.shareDatabase(database_id, "new@example.com", "viewer")
+    ).rejects.toBeInstanceOf(PermissionError);
+  });
+
+  it("updates and revokes members, and cancels invitations", async () => {
+    const { cms, server, database_id } = await setup();
+    await cms.shareDatabase(database_id, "editor@example.com", "viewer");
+    await cms.shareDatabase(database_id, "new@example.com", "viewer");
+    const [owner, member] = server.getMembers(database_id);
+
+    await expect(
+      cms.updateDatabaseMemberRole(database_id, member.user_id, "editor")
+    ).resolves.toMatchObject({ role: "editor" });
+    await expect(cms.revokeDatabaseAccess(database_id, owner.user_id)).rejects.toBeInstanceOf(
+      ValidationError
+    );
+    await cms.revokeDatabaseAccess(database_id, member.user_id);
+    expect(server.getMembers(database_id)).toHaveLength(1);
+
+    const [invitation] = (await cms.getDatabaseInvitations(database_id))!;
+    await cms.cancelDatabaseInvitation(database_id, String(invitation._id));
+    await expect(cms.getDatabaseInvitations(database_id)).resolves.toEqual([]);
+  });
+
+  it("resolves to null when the database or member is not found", async () => {
+    const { cms, database_id } = await setup();
+
+    await expect(cms.getDatabaseMembers("0".repeat(24))).resolves.toBeNull();
+    await expect(
+      cms.shareDatabase("0".repeat(24), "editor@example.com", "viewer")
+    ).resolves.toBeNull();
+    await expect(
+      cms.updateDatabaseMemberRole(database_id, "0".repeat(24), "viewer")
+    ).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,91 @@
+import init, { createMockServer, slugify } from "../index";
+
+describe("slugify", () => {
+  it("removes accents and transliterates letters", () => {
+    expect(slugify("Crème Brûlée & Café")).toBe("creme-brulee-and-cafe");
+    expect(slugify("Straße")).toBe("strasse");
+    expect(slugify("Привет, мир")).toBe("privet-mir");
+  });
+
+  it("joins the parts of words split by apostrophes", () => {
+    expect(slugify("Don't Stop")).toBe("dont-stop");
+  });
+
+  it("applies the separator, case and maximum length", () => {
+    expect(slugify("Hello World", { separator: "_", lowercase: false })).toBe("Hello_World");
+    expect(slugify("one two three", { maxLength: 8 })).toBe("one-two");
+    expect(slugify("unbreakable", { maxLength: 5 })).toBe("unbre");
+  });
+});
+
+describe("slug derivation", () => {
+  const setup = async (slugs: boolean | { separator: string } = true) => {
+    const cms = init({ token: "test", transport: createMockServer().transport, slugs });
+    const database = await cms.createDatabase("Blog");
+    const collection = await cms.createCollectionByDatabaseId(database._id, {
+      name: "Posts",
+      fields: [
+        { name: "Name", type: "PlainText" },
+        { name: "Slug", type: "PlainText" },
+      ],
+    });
+    return { cms, collection, database };
+  };
+
+  it("derives the slug of a new item from its name", async () => {
+    const { cms, collection } = await setup();
+
+    await expect(cms.createItem(collection._id, { name: "Hello World" })).resolves.toMatchObject({
+      slug: "hello-world",
+    });
+    await expect(cms.getItemBySlug(collection._id, "hello-world")).resolves.toMatchObject({
+      name: "Hello World",
+    });
+  });
+
+  it("keeps the slug of an item created with one", async () => {
+    const { cms, collection } = await setup();
+
+    await expect(
+      cms.createItem(collection._id, { name: "Hello World", slug: "custom" })
+    ).resolves.toMatchObject({ slug: "custom" });
+  });
+
+  it("gives items created at the same time unique slugs", async () => {
+    const { cms, collection } = await setup();
+    await cms.createItem(collection._id, { name: "Hello" });
+
+    const items = await Promise.all(
+      [1, 2, 3].map(() => cms.createItem(collection._id, { name: "Hello" }))
+    );
+    expect(items.map((item) => item.slug).sort()).toEqual(["hello-2", "hello-3", "hello-4"]);
+  });
+
+  it("uses the slug options of the client", async () => {
+    const { cms, collection } = await setup({ separator: "_" });
+
+    await expect(cms.createItem(collection._id, { name: "Hello World" })).resolves.toMatchObject({
+      slug: "hello_world",
+    });
+  });
+
+  it("derives the slug of a new collection from its name", async () => {
+    const { cms, database } = await setup();
+
+    const collection = await cms.createCollectionByDatabaseId(database._id, {
+      name: "Café Menu",
+      fields: [],
+    });
+    expect(collection.slug).toBe("cafe-menu");
+    await expect(cms.getCollectionBySlug(database._id, "cafe-menu")).resolves.toMatchObject({
+      name: "Café Menu",
+    });
+  });
+
+  it("leaves the slug empty when slugs are disabled", async () => {
+    const { cms, collection } = await setup(false);
+
+    const item = await cms.createItem(collection._id, { name: "Hello World" });
+    expect(item.slug).toBeUndefined();
+  });
+});
@@ -0,0 +1,387 @@
+import { promises as fs } from "fs";
+import CMSError, { ImportDatabaseError } from "../CMSError";
+import type { MyCMS } from "../index";
+import { CollectionDataFields, CollectionField } from "../interfaces/collectionInterfaces";
+import Database from "../interfaces/databaseInterfaces";
+import Item from "../interfaces/itemInterfaces";
+import { itemMetaKeys } from "../Model";
+import { depopulate } from "../populate";
+
+/** The version of the archive format written by `exportDatabase()` */
+export const ARCHIVE_VERSION = 1;
+
+export type ArchiveFormat = "json" | "ndjson";
+
+export interface ArchiveCollection {
+  /** The ID of the collection in the exported database */
+  _id: string;
+  /** The name of the collection */
+  name: string;
+  /** The unique slug of the collection */
+  slug: string;
+  /** The name of the collection in singular form */
+  singularName?: string;
+  /** The field definitions of the collection */
+  fields: CollectionField[];
+  /** Every item in the collection. Their timestamps are ISO strings once serialized */
+  items: Item<Date | string>[];
+}
+
+export interface DatabaseArchive {
+  /** The version of the archive format */
+  version: number;
+  /** The date the archive was exported, as an ISO string */
+  exportedAt: string;
+  /** The exported database */
+  database: Pick<Database, "_id" | "name" | "slug">;
+  /** Every collection of the database, with its fields and items */
+  collections: ArchiveCollection[];
+}
+
+export interface ImportDatabaseOptions {
+  /**
+   * The name of the created database
+   * @default The name of the exported database
+   */
+  name?: string;
+}
+
+export interface ImportDatabaseResult<D extends Date | string = Date> {
+  /** The created database */
+  database: Database<D>;
+  /** The IDs of the created collections, by the IDs of the exported collections */
+  collections: { [exported_id: string]: string };
+  /** The IDs of the created items, by the IDs of the exported items */
+  items: { [exported_id: string]: string };
+}
+
+/** A reference to an item that is set once the referenced item is created */
+interface DeferredReference {
+  /** The ID of the exported collection of the item */
+  collection_id: string;
+  /** The ID of the exported item */
+  item_id: string;
+  /** The slug of the reference field */
+  slug: string;
+  /** The exported value of the field */
+  value: string | string[];
+}
+
+const referenceTypes = ["ItemRef", "ItemRefMulti"];
+
+const isReference = (field: CollectionField) =>
+  referenceTypes.includes(field.type) && !!field.validations && !!field.validations.collectionId;
+
+/**
+ * Exports every collection, field definition and item of a database by `database_id`
+ * @param cms The CMS instance
+ * @param database_id The unique database ID
+ */
+export async function exportDatabase<D extends Date | string>(
+  cms: MyCMS<D>,
+  database_id: string
+): Promise<DatabaseArchive> {
+  const database = await cms.getDatabaseById(database_id);
+  if (!database) throw new CMSError(`No database found with ID '${database_id}'`);
+
+  const collections: ArchiveCollection[] = [];
+  for (const collection of await cms.collections(database_id).all()) {
+    const collection_id = String(collection._id);
+    const fields = (await cms.getCollectionFields(collection_id)) || [];
+    const items = await cms.items(collection_id).all();
+    const { name, slug, singularName } = collection;
+    collections.push({ _id: collection_id, name, slug, singularName, fields, items });
+  }
+
+  return {
+    version: ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    database: { _id: String(database._id), name: database.name, slug: database.slug },
+    collections,
+  };
+}
+
+/**
+ * Serializes an archive to JSON, or to NDJSON with one line for the database, each
+ * collection and each item. NDJSON archives of large databases can be processed line
+ * by line
+ * @param archive The archive returned by `exportDatabase()`
+ * @param format The format of the serialized archive
+ */
+export const serializeArchive = (archive: DatabaseArchive, format: ArchiveFormat = "json") => {
+  if (format === "json") return JSON.stringify(archive, null, 2);
+  const { collections, ...header } = archive;
+  const lines = [JSON.stringify({ type: "database", ...header })];
+  for (const { items, ...collection } of collections) {
+    lines.push(JSON.stringify({ type: "collection", ...collection }));
+    for (const item of items) {
+      lines.push(JSON.stringify({ type: "item", collection_id: collection._id, item }));
+    }
+  }
+  return lines.join("\n") + "\n";
+};
+
+/**
+ * Parses an archive serialized as JSON or NDJSON
+ * @param source The serialized archive
+ */
+export const parseArchive = (source: string): DatabaseArchive => {
+  const text = source.trim();
+  let archive: DatabaseArchive;
+  try {
+    archive = JSON.parse(text);
+  } catch (err) {
+    archive = parseNDJSON(text);
+  }
+  assertSupportedVersion(archive);
+  return archive;
+};
+
+const parseNDJSON = (text: string): DatabaseArchive => {
+  let archive: DatabaseArchive | undefined;
+  const collections = new Map<string, ArchiveCollection>();
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) return;
+    let entry: any;
+    try {
+      entry = JSON.parse(line);
+    } catch (err) {
+      throw new CMSError(`Invalid archive: line ${index + 1} is not valid JSON`);
+    }
+    const { type, ...data } = entry;
+    if (type === "database") {
+      archive = { ...data, collections: [] };
+    } else if (type === "collection" && archive) {
+      const collection = { ...data, items: [] } as ArchiveCollection;
+      collections.set(collection._id, collection);
+      archive.collections.push(collection);
+    } else if (type === "item" && collections.has(data.collection_id)) {
+      collections.get(data.collection_id)!.items.push(data.item);
+    } else {
+      throw new CMSError(`Invalid archive: unexpected entry on line ${index + 1}`);
+    }
+  });
+
+  if (!archive) throw new CMSError("Invalid archive: the database entry is missing");
+  return archive;
+};
+
+const assertSupportedVersion = (archive: DatabaseArchive) => {
+  if (!archive || typeof archive.version !== "number" || !Array.isArray(archive.collections)) {
+    throw new CMSError("Invalid archive: the version or collections are missing");
+  }
+  if (archive.version > ARCHIVE_VERSION) {
+    throw new CMSError(`Unsupported archive version ${archive.version}`);
+  }
+};
+
+/**
+ * Exports a database by `database_id` and writes the archive to `outFile`
+ * @param cms The CMS instance
+ * @param database_id The unique database ID
+ * @param outFile The path of the file being written
+ * @param format The format of the archive
+ */
+export async function writeArchive<D extends Date | string>(
+  cms: MyCMS<D>,
+  database_id: string,
+  outFile: string,
+  format: ArchiveFormat = "json"
+) {
+  const archive = await exportDatabase(cms, database_id);
+  await fs.writeFile(outFile, serializeArchive(archive, format));
+  return archive;
+}
+
+/**
+ * Reads an archive written by `writeArchive()`
+ * @param file The path of the archive
+ */
+export async function readArchive(file: string) {
+  return parseArchive(await fs.readFile(file, "utf8"));
+}
+
+/**
+ * Orders collections so collections are created after the collections they reference.
+ * Collections that reference each other are kept in their original order
+ * @param collections The collections of the archive
+ */
+const orderByReferences = (collections: ArchiveCollection[]) => {
+  const byId = new Map(collections.map((collection) => [collection._id, collection]));
+  const ordered: ArchiveCollection[] = [];
+  const visited = new Set<string>();
+
+  const visit = (collection: ArchiveCollection) => {
+    if (visited.has(collection._id)) return;
+    visited.add(collection._id);
+    for (const field of collection.fields.filter(isReference)) {
+      const target = byId.get(field.validations!.collectionId!);
+      if (target) visit(target);
+    }
+    ordered.push(collection);
+  };
+
+  collections.forEach(visit);
+  return ordered;
+};
+
+/**
+ * Returns the definition of an exported field
+ * @param field The exported field
+ * @param collectionId The ID of the created collection a reference field points to
+ * @param required Whether the field is created as required
+ */
+const toFieldData = (
+  field: CollectionField,
+  collectionId?: string,
+  required = field.required
+): CollectionDataFields => {
+  const { type, name, helpText, primary, slug } = field;
+  const validations = collectionId ? { ...field.validations, collectionId } : field.validations;
+  const data: CollectionDataFields = { type, name, required, validations, helpText };
+  // The slug field is the primary slug, and any other primary field the primary name
+  if (primary && slug === "slug") data.primarySlug = true;
+  else if (primary) data.primaryName = true;
+  return data;
+};
+
+/**
+ * Creates a new database from an archive. Collections, fields and items get new IDs,
+ * and references between them are remapped to the new IDs. References to collections
+ * outside of the archive are kept unchanged, and items keep their archived slugs.
+ * Required references that may point to items created later are created as optional,
+ * and made required again once every reference is set.
+ *
+ * If the import fails after the database is created, an `ImportDatabaseError` is thrown
+ * with the database, collections and items created so far. Delete `error.result.database`
+ * to undo the import
+ * @param cms The CMS instance
+ * @param source The archive, or an archive serialized as JSON or NDJSON
+ * @param options
+ */
+export async function importDatabase<D extends Date | string>(
+  cms: MyCMS<D>,
+  source: DatabaseArchive | string,
+  options: ImportDatabaseOptions = {}
+): Promise<ImportDatabaseResult<D>> {
+  const archive = typeof source === "string" ? parseArchive(source) : source;
+  assertSupportedVersion(archive);
+
+  const database = await cms.createDatabase(options.name || archive.database.name);
+  const database_id = String(database._id);
+  const collectionIds: { [exported_id: string]: string } = {};
+  const itemIds: { [exported_id: string]: string } = {};
+  const archived = new Set(archive.collections.map((collection) => collection._id));
+  const ordered = orderByReferences(archive.collections);
+  const position = new Map(ordered.map((collection, index) => [collection._id, index]));
+
+  try {
+    // References to collections that are not created yet are added once they all exist
+    const deferredFields: { collection_id: string; field: CollectionField }[] = [];
+    // Required references to items that may be created later are made required last
+    const requiredLater: { collection_id: string; name: string }[] = [];
+    for (const collection of ordered) {
+      const fields: CollectionDataFields[] = [];
+      for (const field of collection.fields) {
+        if (field.editable === false) continue;
+        if (!isReference(field)) {
+          fields.push(toFieldData(field));
+          continue;
+        }
+        const target = field.validations!.collectionId!;
+        if (!archived.has(target)) {
+          fields.push(toFieldData(field));
+          continue;
+        }
+        const pointsForward = position.get(target)! >= position.get(collection._id)!;
+        if (pointsForward && field.required) {
+          requiredLater.push({ collection_id: collection._id, name: field.name });
+        }
+        if (collectionIds[target]) {
+          fields.push(toFieldData(field, collectionIds[target], field.required && !pointsForward));
+        } else {
+          deferredFields.push({ collection_id: collection._id, field });
+        }
+      }
+      const { name, slug, singularName } = collection;
+      const created = await cms.createCollectionByDatabaseId(database_id, {
+        name,
+        slug,
+        singularName,
+        fields,
+      });
+      collectionIds[collection._id] = String(created._id);
+    }
+    for (const { collection_id, field } of deferredFields) {
+      const target = collectionIds[field.validations!.collectionId!];
+      await cms.createCollectionField(
+        collectionIds[collection_id],
+        toFieldData(field, target, false)
+      );
+    }
+
+    // References to items that are not created yet are patched once they all exist
+    const deferredRefs: DeferredReference[] = [];
+    for (const collection of ordered) {
+      const references = collection.fields.filter(
+        (field) => isReference(field) && archived.has(field.validations!.collectionId!)
+      );
+      for (const item of collection.items) {
+        const data: { [field: string]: any } = {};
+        for (const key of Object.keys(item)) {
+          if (!itemMetaKeys.includes(key)) data[key] = item[key];
+        }
+        for (const { slug } of references) {
+          if (data[slug] === undefined || data[slug] === null) continue;
+          const value: string | string[] = depopulate(data[slug]);
+          const ids: string[] = Array.isArray(value) ? value : [value];
+          if (ids.every((id) => itemIds[id])) {
+            data[slug] = remapReference(value, itemIds);
+          } else {
+            deferredRefs.push({
+              collection_id: collection._id,
+              item_id: String(item._id),
+              slug,
+              value,
+            });
+            delete data[slug];
+          }
+        }
+        const created = await cms.createItem(collectionIds[collection._id], data, {
+          deriveSlug: false,
+        });
+        itemIds[String(item._id)] = String(created._id);
+      }
+    }
+    for (const { collection_id, item_id, slug, value } of deferredRefs) {
+      await cms.patchItemById(collectionIds[collection_id], itemIds[item_id], {
+        [slug]: remapReference(value, itemIds),
+      });
+    }
+    for (const { collection_id, name } of requiredLater) {
+      const fields = (await cms.getCollectionFields(collectionIds[collection_id])) || [];
+      const field = fields.find((other) => other.name === name);
+      if (field) {
+        await cms.updateCollectionField(collectionIds[collection_id], String(field._id), {
+          required: true,
+        });
+      }
+    }
+  } catch (err) {
+    throw new ImportDatabaseError({ database, collections: collectionIds, items: itemIds }, err);
+  }
+
+  return { database, collections: collectionIds, items: itemIds };
+}
+
+/**
+ * Replaces the item IDs of an `ItemRef` or `ItemRefMulti` value with the IDs of the
+ * created items. IDs of items that were not imported are removed
+ * @param value The exported value of the field
+ * @param itemIds The IDs of the created items, by the IDs of the exported items
+ */
+const remapReference = (value: string | string[], itemIds: { [exported_id: string]: string }) =>
+  Array.isArray(value)
+    ? value.filter((id) => itemIds[id]).map((id) => itemIds[id])
+    : itemIds[value] || null;
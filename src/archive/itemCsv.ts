@@ -0,0 +1,311 @@
+import CMSError from "../CMSError";
+import type { MyCMS } from "../index";
+import { BulkOptions } from "../interfaces/bulkInterfaces";
+import { CollectionField, CollectionValidationOption } from "../interfaces/collectionInterfaces";
+import Item from "../interfaces/itemInterfaces";
+import { depopulate } from "../populate";
+import { parseCsv, stringifyCsv } from "../utils/csv";
+import runBulk from "../utils/runBulk";
+import { deriveSlug } from "../utils/slugify";
+import validateItem, { FieldValidationError } from "../validation/itemValidator";
+
+export interface CsvOptions {
+  /**
+   * The cell delimiter
+   * @default ","
+   */
+  delimiter?: string;
+  /**
+   * The separator between the IDs of an `ItemRefMulti` cell
+   * @default ";"
+   */
+  multiValueSeparator?: string;
+}
+
+export interface ExportItemsCsvOptions extends CsvOptions {
+  /**
+   * The slugs of the exported fields, in column order
+   * @default Every field of the collection
+   */
+  fields?: string[];
+}
+
+export interface ImportItemsCsvOptions extends CsvOptions, Pick<BulkOptions, "concurrency"> {
+  /**
+   * The column rows are matched to existing items by (e.g. `"_id"` or `"slug"`). Rows
+   * matching an item update it, other rows create a new item. Without it, every row
+   * creates a new item
+   */
+  upsertBy?: string;
+}
+
+export interface CsvRowError {
+  /** The number of the row in the CSV, where the header is row 1 */
+  row: number;
+  /** Human readable description of why the row was not imported */
+  message: string;
+  /** The errors of every cell that failed to be coerced or validated */
+  fieldErrors: FieldValidationError[];
+  /** The error of the request, if the row was rejected by the server */
+  error?: CMSError;
+}
+
+export interface ImportItemsCsvResult<T extends Item<Date | string> = Item> {
+  /** The items created from rows */
+  created: T[];
+  /** The items updated from rows */
+  updated: T[];
+  /** The rows that were not imported */
+  errors: CsvRowError[];
+}
+
+type Coerced = { value?: unknown; error?: string };
+
+type RowData = { [slug: string]: unknown };
+
+const TRUE_VALUES = ["true", "yes", "y", "1"];
+const FALSE_VALUES = ["false", "no", "n", "0"];
+
+const getOptions = (field: CollectionField) =>
+  ((field.validations && field.validations.options) || []) as Array<
+    CollectionValidationOption | string
+  >;
+
+/**
+ * Converts the value of an item field to the text of a CSV cell
+ * @param field The collection field
+ * @param value The value of the field
+ * @param separator The separator between the IDs of an `ItemRefMulti` cell
+ */
+const formatCell = (field: CollectionField | undefined, value: any, separator: string): string => {
+  if (value === undefined || value === null) return "";
+  if (value instanceof Date) return value.toISOString();
+  if (!field) return typeof value === "object" ? JSON.stringify(value) : String(value);
+  switch (field.type) {
+    case "ItemRefMulti":
+      return (Array.isArray(value) ? depopulate(value) : [value]).join(separator);
+    case "ItemRef":
+    case "User":
+      return String(depopulate(value));
+    case "Option": {
+      const option = getOptions(field).find((o) => typeof o !== "string" && o._id == value);
+      return option ? (option as CollectionValidationOption).name : String(value);
+    }
+    case "ImageRef":
+      return typeof value === "object" ? String(value.url || value._id || "") : String(value);
+    default:
+      return typeof value === "object" ? JSON.stringify(value) : String(value);
+  }
+};
+
+/**
+ * Converts the text of a CSV cell to the value of an item field
+ * @param field The collection field
+ * @param cell The text of the cell
+ * @param separator The separator between the IDs of an `ItemRefMulti` cell
+ */
+const coerceCell = (field: CollectionField, cell: string, separator: string): Coerced => {
+  const text = cell.trim();
+  if (text === "") return { value: undefined };
+  switch (field.type) {
+    case "Bool": {
+      if (TRUE_VALUES.includes(text.toLowerCase())) return { value: true };
+      if (FALSE_VALUES.includes(text.toLowerCase())) return { value: false };
+      return { error: `'${field.name}' must be true or false` };
+    }
+    case "Number": {
+      const value = Number(text);
+      return Number.isNaN(value) ? { error: `'${field.name}' must be a number` } : { value };
+    }
+    case "Date": {
+      const date = new Date(text);
+      if (Number.isNaN(date.getTime())) return { error: `'${field.name}' must be a valid date` };
+      return { value: date.toISOString() };
+    }
+    case "Option": {
+      const options = getOptions(field);
+      if (!options.length) return { value: text };
+      const option = options.find((o) =>
+        typeof o === "string"
+          ? o.toLowerCase() === text.toLowerCase()
+          : o.name.toLowerCase() === text.toLowerCase() || String(o._id) === text
+      );
+      if (!option) return { error: `'${field.name}' must be one of the field's options` };
+      return { value: typeof option === "string" ? option : String(option._id) };
+    }
+    case "ItemRefMulti":
+      return {
+        value: text
+          .split(separator)
+          .map((id) => id.trim())
+          .filter(Boolean),
+      };
+    default:
+      return { value: field.type === "PlainText" || field.type === "RichText" ? cell : text };
+  }
+};
+
+/**
+ * Exports the items of a collection by `collection_id` to CSV, with one column per
+ * field named after the field's slug, preceded by an `_id` column
+ * @param cms The CMS instance
+ * @param collection_id The unique collection ID
+ * @param options
+ */
+export async function exportItemsCsv<D extends Date | string>(
+  cms: MyCMS<D>,
+  collection_id: string,
+  { delimiter = ",", multiValueSeparator = ";", fields: slugs }: ExportItemsCsvOptions = {}
+) {
+  const fields = (await cms.getCollectionFields(collection_id)) || [];
+  const columns = slugs || fields.map((field) => field.slug);
+  const fieldsBySlug = new Map(fields.map((field) => [field.slug, field]));
+
+  const rows = [["_id", ...columns]];
+  for await (const item of cms.items(collection_id).iterate()) {
+    rows.push([
+      String(item._id),
+      ...columns.map((slug) => formatCell(fieldsBySlug.get(slug), item[slug], multiValueSeparator)),
+    ]);
+  }
+  return stringifyCsv(rows, delimiter);
+}
+
+/**
+ * Imports CSV rows into a collection by `collection_id`. Each cell is coerced to the
+ * type of the field its column is named after, and each row is validated against the
+ * collection's fields. Rows that fail coercion, validation or the request are reported
+ * in `errors` instead of stopping the import, as are rows whose `upsertBy` value repeats
+ * the value of an earlier row. Empty cells are left out of the item.
+ * @param cms The CMS instance
+ * @param collection_id The unique collection ID
+ * @param csv The CSV text. The first row names the field slug of each column
+ * @param options
+ */
+export async function importItemsCsv<
+  T extends Item<Date | string> = Item,
+  D extends Date | string = Date
+>(
+  cms: MyCMS<D>,
+  collection_id: string,
+  csv: string,
+  { delimiter = ",", multiValueSeparator = ";", upsertBy, concurrency }: ImportItemsCsvOptions = {}
+): Promise<ImportItemsCsvResult<T>> {
+  const [header = [], ...records] = parseCsv(csv, delimiter);
+  const columns = header.map((column) => column.trim());
+  const fields = (await cms.getCollectionFields(collection_id)) || [];
+  const fieldsBySlug = new Map(fields.map((field) => [field.slug, field]));
+  const { slugOptions } = cms;
+
+  const unknown = columns.filter((column) => column !== "_id" && !fieldsBySlug.has(column));
+  if (unknown.length) {
+    throw new CMSError(`Unknown CSV columns: ${unknown.map((c) => `'${c}'`).join(", ")}`);
+  }
+  if (upsertBy && !columns.includes(upsertBy)) {
+    throw new CMSError(`The CSV has no '${upsertBy}' column to upsert by`);
+  }
+
+  const existing = new Map<string, string>();
+  if (upsertBy && upsertBy !== "_id") {
+    for await (const item of cms.items(collection_id).iterate()) {
+      const key = item[upsertBy];
+      if (key !== undefined && key !== null) existing.set(String(key), String(item._id));
+    }
+  }
+
+  const errors: CsvRowError[] = [];
+  const rows: { row: number; item_id?: string; data: RowData }[] = [];
+  // The first row of each `upsertBy` value, to report the rows that repeat it
+  const keyRows = new Map<string, number>();
+  records.forEach((cells, index) => {
+    const row = index + 2;
+    if (cells.every((cell) => cell.trim() === "")) return;
+
+    const data: RowData = {};
+    const fieldErrors: FieldValidationError[] = [];
+    let item_id: string | undefined;
+    columns.forEach((column, i) => {
+      const cell = cells[i] || "";
+      if (column === "_id") {
+        if (cell.trim()) item_id = cell.trim();
+        return;
+      }
+      const field = fieldsBySlug.get(column)!;
+      const { value, error } = coerceCell(field, cell, multiValueSeparator);
+      if (error)
+        fieldErrors.push({
+          field: column,
+          name: field.name,
+          rule: "type",
+          message: error,
+          value: cell,
+        });
+      else if (value !== undefined) data[column] = value;
+    });
+
+    const key = upsertBy === "_id" ? item_id : upsertBy ? data[upsertBy] : undefined;
+    if (upsertBy && upsertBy !== "_id") {
+      item_id = key !== undefined ? existing.get(String(key)) : undefined;
+    } else if (!upsertBy) {
+      item_id = undefined;
+    }
+    if (key !== undefined) {
+      const first = keyRows.get(String(key));
+      if (first) {
+        const message = `Row ${row} has the same '${upsertBy}' as row ${first}`;
+        errors.push({ row, message, fieldErrors: [] });
+        return;
+      }
+      keyRows.set(String(key), row);
+    }
+
+    if (!fieldErrors.length) {
+      // `createItem` derives the slug of a new item without one, so it is not required yet
+      const derived = !item_id && slugOptions ? deriveSlug(fields, data, slugOptions) : undefined;
+      const { errors: validationErrors } = validateItem(fields, data, { partial: !!item_id });
+      fieldErrors.push(
+        ...validationErrors.filter(
+          (error) => !(derived && error.field === derived.field.slug && error.rule === "required")
+        )
+      );
+    }
+    if (fieldErrors.length) {
+      errors.push({ row, message: fieldErrors.map((e) => e.message).join("; "), fieldErrors });
+    } else {
+      rows.push({ row, item_id, data });
+    }
+  });
+
+  const result = await runBulk(
+    rows,
+    (entry) => entry.item_id,
+    async ({ item_id, data }) => {
+      if (!item_id) {
+        const item = await cms.createItem<Item<D>>(collection_id, data);
+        return { id: String(item._id), result: (item as unknown) as T };
+      }
+      const item = await cms.patchItemById<Item<D>>(collection_id, item_id, data);
+      return item && { id: item_id, result: (item as unknown) as T };
+    },
+    { concurrency }
+  );
+
+  const created: T[] = [];
+  const updated: T[] = [];
+  for (const outcome of result.succeeded) {
+    (rows[outcome.index].item_id ? updated : created).push(outcome.result);
+  }
+  for (const outcome of result.failed) {
+    const { message, fieldErrors = [] } = outcome.error as CMSError & {
+      fieldErrors?: FieldValidationError[];
+    };
+    errors.push({ row: rows[outcome.index].row, message, fieldErrors, error: outcome.error });
+  }
+  for (const outcome of result.skipped) {
+    const { row, item_id } = rows[outcome.index];
+    errors.push({ row, message: `No item found with ID '${item_id}'`, fieldErrors: [] });
+  }
+  errors.sort((a, b) => a.row - b.row);
+
+  return { created, updated, errors };
+}
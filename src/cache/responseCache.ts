@@ -0,0 +1,280 @@
+import { AxiosPromise, AxiosRequestConfig, AxiosResponse } from "axios";
+import { createHash } from "crypto";
+import { serializeParams } from "../utils/queryString";
+
+export interface CacheEntry {
+  /** The body of the cached response */
+  data: any;
+  /** The `ETag` header of the cached response, used to revalidate it once it expires */
+  etag?: string;
+  /** The time the entry expires at, in milliseconds since the epoch */
+  expiresAt: number;
+}
+
+/**
+ * Storage for cached responses. Methods may return promises, so entries can be kept in
+ * an external store
+ */
+export interface CacheStore {
+  get(key: string): CacheEntry | undefined | Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): void | Promise<void>;
+  delete(key: string): void | Promise<void>;
+  /** Returns the keys of every entry */
+  keys(): string[] | Promise<string[]>;
+}
+
+/** The kinds of resources responses are cached for */
+export type CacheResource = "databases" | "collections" | "fields" | "items" | "assets" | "users";
+
+export interface CacheOptions {
+  /**
+   * Where responses are stored
+   * @default An in-memory `MemoryCacheStore`
+   */
+  store?: CacheStore;
+  /**
+   * The maximum number of entries of the default in-memory store
+   * @default 500
+   */
+  maxEntries?: number;
+  /**
+   * The number of milliseconds a response is used without revalidating it
+   * @default 60000
+   */
+  ttl?: number;
+  /**
+   * The TTLs of individual kinds of resources, overriding `ttl`. Set a TTL to 0 to only
+   * reuse responses after revalidating them with their ETag
+   */
+  ttls?: Partial<Record<CacheResource, number>>;
+  /**
+   * Separates the responses of this client from those of other clients sharing the
+   * store. Set it when the token of the same user rotates, so the responses survive
+   * the rotation
+   * @default A fingerprint of the API token
+   */
+  namespace?: string;
+}
+
+/**
+ * In-memory cache store that evicts the least recently used entry once it holds
+ * `maxEntries` entries
+ */
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, CacheEntry>();
+  private maxEntries: number;
+
+  /**
+   * @param maxEntries The maximum number of entries
+   */
+  constructor(maxEntries = 500) {
+    this.maxEntries = maxEntries;
+  }
+
+  get(key: string) {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  set(key: string, entry: CacheEntry) {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value);
+    }
+  }
+
+  delete(key: string) {
+    this.entries.delete(key);
+  }
+
+  keys() {
+    return [...this.entries.keys()];
+  }
+}
+
+export const DEFAULT_TTL = 60000;
+
+const clone = <T>(data: T): T => JSON.parse(JSON.stringify(data));
+
+/**
+ * Returns the kind of resource a request path reads
+ * @param path The path of the request, relative to the API endpoint
+ */
+const getResource = (path: string): CacheResource => {
+  const [root, , sub] = path.split("/").filter(Boolean);
+  if (root === "users") return "users";
+  if (root === "assets" || sub === "assets") return "assets";
+  if (sub === "collections") return "collections";
+  if (root === "databases") return "databases";
+  if (sub === "fields") return "fields";
+  if (sub === "items") return "items";
+  return "collections";
+};
+
+/** Returns the path of the request a cache key was made for, without its namespace and query */
+const getKeyPath = (key: string) => key.slice(key.indexOf("/")).split("?")[0];
+
+const isUnder = (path: string, prefix: string) => path === prefix || path.startsWith(`${prefix}/`);
+
+const isCollectionList = (path: string) => /^\/databases\/[^/]+\/collections$/.test(path);
+
+const isAssetList = (path: string) => /^\/databases\/[^/]+\/assets$/.test(path);
+
+/**
+ * Returns a function matching the paths of the cached responses a write to `path` may
+ * have changed
+ * @param method The HTTP method of the write
+ * @param path The path of the write, relative to the API endpoint
+ */
+const getInvalidated = (method: string, path: string): ((cached: string) => boolean) => {
+  const [root, id, sub] = path.split("/").filter(Boolean);
+  if (root === "collections" && id) {
+    const collection = `/collections/${id}`;
+    if (sub === "items") return (cached) => isUnder(cached, `${collection}/items`);
+    if (sub === "fields") {
+      return (cached) => cached === collection || isUnder(cached, `${collection}/fields`);
+    }
+    return (cached) => isUnder(cached, collection) || isCollectionList(cached);
+  }
+  if (root === "collections") return isCollectionList;
+  if (root === "assets" || sub === "assets") {
+    return (cached) => isUnder(cached, "/assets") || isAssetList(cached);
+  }
+  // Deleting a database deletes collections whose IDs are not known here
+  if (root === "databases" && id && method === "DELETE") return () => true;
+  if (root === "databases") return (cached) => isUnder(cached, "/databases");
+  return () => true;
+};
+
+/**
+ * Caches the responses of GET requests. Expired responses with an ETag are revalidated
+ * with `If-None-Match`, and writes invalidate the responses they may have changed.
+ * Responses are kept apart by the token they were requested with, so clients of
+ * different users can share a store
+ */
+export default class ResponseCache {
+  private store: CacheStore;
+  private ttl: number;
+  private ttls: Partial<Record<CacheResource, number>>;
+  private namespace?: string;
+  /**
+   * Counts invalidations. A response whose request was sent before an invalidation may
+   * be stale, and is not cached
+   */
+  private generation = 0;
+
+  constructor({ store, maxEntries, ttl = DEFAULT_TTL, ttls = {}, namespace }: CacheOptions = {}) {
+    this.store = store || new MemoryCacheStore(maxEntries);
+    this.ttl = ttl;
+    this.ttls = ttls;
+    this.namespace = namespace;
+  }
+
+  /**
+   * Returns the cached response of a GET request, or sends the request and caches its
+   * response
+   * @param path The path of the request, relative to the API endpoint
+   * @param query The query string parameters of the request
+   * @param token The API token the request is sent with
+   * @param request Sends the request with additional request config
+   */
+  async fetch<T>(
+    path: string,
+    query: { [param: string]: any },
+    token: string,
+    request: (config: AxiosRequestConfig) => AxiosPromise<T>
+  ): Promise<AxiosResponse<T>> {
+    const namespace =
+      this.namespace === undefined ? fingerprint(token) : encodeURIComponent(this.namespace);
+    const key = `${namespace}:${getKey(path, query)}`;
+    const generation = this.generation;
+    const cached = await this.store.get(key);
+    if (cached && cached.expiresAt > Date.now()) return toResponse<T>(cached.data);
+
+    const ttl = this.getTtl(path);
+    if (cached && cached.etag) {
+      const res = await request({
+        headers: { "If-None-Match": cached.etag },
+        validateStatus: (status) => (status >= 200 && status < 300) || status === 304,
+      });
+      if (res.status === 304) {
+        if (generation === this.generation) {
+          await this.store.set(key, { ...cached, expiresAt: Date.now() + ttl });
+        }
+        return toResponse<T>(cached.data);
+      }
+      if (generation === this.generation) await this.save(key, res, ttl);
+      return res;
+    }
+
+    const res = await request({});
+    if (generation === this.generation) await this.save(key, res, ttl);
+    return res;
+  }
+
+  /**
+   * Removes the cached responses a write may have changed, in every namespace
+   * @param method The HTTP method of the write
+   * @param path The path of the write, relative to the API endpoint
+   */
+  async invalidate(method: string, path: string) {
+    const invalidated = getInvalidated(method, path);
+    this.generation++;
+    for (const key of await this.store.keys()) {
+      if (invalidated(getKeyPath(key))) await this.store.delete(key);
+    }
+  }
+
+  /**
+   * Removes every cached response, or the responses of paths starting with `prefix`
+   * @param prefix The path prefix, relative to the API endpoint (e.g. `/collections`)
+   */
+  async clear(prefix?: string) {
+    this.generation++;
+    for (const key of await this.store.keys()) {
+      if (!prefix || isUnder(getKeyPath(key), prefix.replace(/\/+$/, ""))) {
+        await this.store.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Returns the number of milliseconds the response of a request to `path` is used
+   * without revalidating it
+   * @param path The path of the request, relative to the API endpoint
+   */
+  getTtl(path: string) {
+    const ttl = this.ttls[getResource(path)];
+    return ttl === undefined ? this.ttl : ttl;
+  }
+
+  private async save(key: string, res: AxiosResponse, ttl: number) {
+    const etag = res.headers && (res.headers.etag || res.headers.ETag);
+    if (ttl <= 0 && !etag) return;
+    await this.store.set(key, { data: clone(res.data), etag, expiresAt: Date.now() + ttl });
+  }
+}
+
+/** Identifies the responses requested with a token without keeping the token in the store */
+const fingerprint = (token: string) =>
+  createHash("sha256").update(token).digest("hex").slice(0, 16);
+
+const getKey = (path: string, query: { [param: string]: any }) => {
+  const sorted: { [param: string]: any } = {};
+  for (const param of Object.keys(query).sort()) sorted[param] = query[param];
+  const params = serializeParams(sorted);
+  return params ? `${path}?${params}` : path;
+};
+
+const toResponse = <T>(data: T): AxiosResponse<T> => ({
+  data: clone(data),
+  status: 200,
+  statusText: "OK",
+  headers: {},
+  config: {},
+});
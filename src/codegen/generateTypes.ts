@@ -0,0 +1,173 @@
+import { promises as fs } from "fs";
+import type { MyCMS } from "../index";
+import {
+  BasicCollectionInfo,
+  CollectionField,
+  CollectionValidationOption,
+} from "../interfaces/collectionInterfaces";
+
+export interface GenerateTypesOptions {
+  /**
+   * How `ItemRef` and `ItemRefMulti` fields are typed. `"id"` types them as item IDs,
+   * `"type"` as an item ID or the interface of the referenced collection (e.g. when the
+   * reference is populated)
+   * @default "id"
+   */
+  references?: "id" | "type";
+  /**
+   * The module the generated file imports the `Item`, `RichText` and `ImageRef` types from
+   * @default "cms-database-sdk"
+   */
+  importFrom?: string;
+}
+
+export interface CollectionSchema {
+  /** The collection */
+  collection: BasicCollectionInfo<Date | string>;
+  /** The fields of the collection */
+  fields: CollectionField[];
+}
+
+const IDENTIFIER_REGEX = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+/**
+ * Turns a collection name into an interface name (e.g. "Blog Post" -> "BlogPost")
+ * @param name The name of the collection
+ */
+const toInterfaceName = (name: string) => {
+  const words = name.match(/[A-Za-z0-9]+/g) || ["Item"];
+  const pascal = words.map((word) => word[0].toUpperCase() + word.slice(1)).join("");
+  return /^[0-9]/.test(pascal) ? `_${pascal}` : pascal;
+};
+
+const toPropertyName = (slug: string) =>
+  IDENTIFIER_REGEX.test(slug) ? slug : JSON.stringify(slug);
+
+const getOptionNames = (options: CollectionValidationOption[] | string[] = []) =>
+  (options as Array<CollectionValidationOption | string>).map((option) =>
+    typeof option === "string" ? option : option.name
+  );
+
+/**
+ * Returns the TypeScript type of a collection field
+ * @param field The collection field
+ * @param interfaceNames The interface name of every collection, by collection ID
+ * @param references How reference fields are typed
+ */
+const toFieldType = (
+  field: CollectionField,
+  interfaceNames: Map<string, string>,
+  references: GenerateTypesOptions["references"]
+) => {
+  const referenced =
+    references === "type" && field.validations && field.validations.collectionId
+      ? interfaceNames.get(field.validations.collectionId)
+      : undefined;
+  switch (field.type) {
+    case "Number":
+      return "number";
+    case "Bool":
+      return "boolean";
+    case "Date":
+      return "Date";
+    case "RichText":
+      return "RichText";
+    case "ImageRef":
+      return "string | ImageRef";
+    case "Option": {
+      const names = getOptionNames(field.validations && field.validations.options);
+      return names.length ? names.map((name) => JSON.stringify(name)).join(" | ") : "string";
+    }
+    case "ItemRef":
+      return referenced ? `string | ${referenced}` : "string";
+    case "ItemRefMulti":
+      return referenced ? `Array<string | ${referenced}>` : "string[]";
+    default:
+      return "string";
+  }
+};
+
+/**
+ * Emits TypeScript interfaces for the items of each collection. Each interface extends
+ * `Item` and has a property for every collection field
+ * @param schemas The collections and their fields
+ * @param options
+ */
+export function generateTypesFromSchemas(
+  schemas: CollectionSchema[],
+  { references = "id", importFrom = "cms-database-sdk" }: GenerateTypesOptions = {}
+) {
+  const interfaceNames = new Map<string, string>();
+  const imports = ["Item"];
+  for (const type of ["RichText", "ImageRef"]) {
+    if (schemas.some(({ fields }) => fields.some((field) => field.type === type))) {
+      imports.push(type);
+    }
+  }
+  const usedNames = new Set<string>(imports);
+  for (const { collection } of schemas) {
+    const base = toInterfaceName(collection.singularName || collection.name);
+    let name = base;
+    for (let i = 2; usedNames.has(name); i++) name = `${base}${i}`;
+    usedNames.add(name);
+    interfaceNames.set(String(collection._id), name);
+  }
+
+  const lines = [
+    "// This file was generated by cms-database-sdk. Do not edit it by hand.",
+    `import { ${imports.join(", ")} } from ${JSON.stringify(importFrom)};`,
+  ];
+  for (const { collection, fields } of schemas) {
+    lines.push("");
+    lines.push(`/** An item in the "${collection.name}" collection */`);
+    lines.push(`export interface ${interfaceNames.get(String(collection._id))} extends Item {`);
+    for (const field of fields) {
+      if (field.helpText) lines.push(`  /** ${field.helpText.replace(/\*\//g, "*\\/")} */`);
+      const optional = field.required ? "" : "?";
+      const type = toFieldType(field, interfaceNames, references);
+      lines.push(`  ${toPropertyName(field.slug)}${optional}: ${type};`);
+    }
+    lines.push("}");
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Reads every collection of a database by `database_id` and emits TypeScript interfaces
+ * for their items
+ * @param cms The CMS instance
+ * @param database_id The unique database ID
+ * @param options
+ */
+export default async function generateTypes<D extends Date | string>(
+  cms: MyCMS<D>,
+  database_id: string,
+  options?: GenerateTypesOptions
+) {
+  const collections = await cms.collections(database_id).all();
+  const schemas: CollectionSchema[] = [];
+  for (const collection of collections) {
+    const fields = await cms.getCollectionFields(String(collection._id));
+    schemas.push({ collection, fields: fields || [] });
+  }
+  return generateTypesFromSchemas(schemas, options);
+}
+
+/**
+ * Generates the TypeScript interfaces of a database by `database_id` and writes them to
+ * a file
+ * @param cms The CMS instance
+ * @param database_id The unique database ID
+ * @param outFile The path of the file being written
+ * @param options
+ */
+export async function writeTypes<D extends Date | string>(
+  cms: MyCMS<D>,
+  database_id: string,
+  outFile: string,
+  options?: GenerateTypesOptions
+) {
+  const source = await generateTypes(cms, database_id, options);
+  await fs.writeFile(outFile, source);
+  return source;
+}
@@ -0,0 +1,32 @@
+import { AuthenticationError } from "./CMSError";
+
+/** A function that returns the API token sent with a request */
+export type TokenProvider = () => string | Promise<string>;
+
+/** An API token, or a provider that returns one for every request */
+export type Credentials = string | TokenProvider;
+
+/**
+ * Creates a token provider that always returns `token`
+ * @param token The API token
+ */
+export const staticToken = (token: string): TokenProvider => () => token;
+
+/**
+ * Creates a token provider that reads the token from an environment variable when a
+ * request is sent
+ * @param name The name of the environment variable
+ * @default "CMS_TOKEN"
+ */
+export const fromEnv = (name = "CMS_TOKEN"): TokenProvider => () => {
+  const token = process.env[name];
+  if (!token) throw new AuthenticationError(`Environment variable '${name}' is not set`);
+  return token;
+};
+
+/**
+ * Turns credentials into a token provider
+ * @param credentials An API token or token provider
+ */
+export const toTokenProvider = (credentials: Credentials): TokenProvider =>
+  typeof credentials === "function" ? credentials : staticToken(credentials);
@@ -0,0 +1,17 @@
+import Asset from "../assetInterfaces";
+import { MultipleResultsReponse } from "./default";
+
+export interface APIAssetsResponse<D extends Date | string = Date> extends MultipleResultsReponse {
+  status: "success";
+  assets: Asset<D>[];
+}
+
+export interface APIAssetResponse<D extends Date | string = Date> {
+  status: "success";
+  asset: Asset<D>;
+}
+
+export interface APIDeletedAssetResponse {
+  status: "success";
+  assetsDeleted: number;
+}
@@ -2,15 +2,16 @@ import Collection, { BasicCollectionInfo, CollectionField } from "../collectionI
 import { APIDeletedDatabaseResponse } from "../apiResponses/database";
 import { MultipleResultsReponse } from "./default";
 
-export interface APICollectionsResponse extends MultipleResultsReponse {
+export interface APICollectionsResponse<D extends Date | string = Date>
+  extends MultipleResultsReponse {
   status: "success";
   database: string;
-  collections: BasicCollectionInfo[];
+  collections: BasicCollectionInfo<D>[];
 }
 
-export interface APICollectionResponse {
+export interface APICollectionResponse<D extends Date | string = Date> {
   status: "success";
-  collection: Collection;
+  collection: Collection<D>;
 }
 export type APIDeletedCollectionResponse = Omit<APIDeletedDatabaseResponse, "databasesDeleted">;
 
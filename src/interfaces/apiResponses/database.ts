@@ -1,14 +1,15 @@
-import Database from "../databaseInterfaces";
+import Database, { DatabaseInvitation, DatabaseMember } from "../databaseInterfaces";
 import { MultipleResultsReponse } from "./default";
 
-export interface APIDatabasesRepsonse extends MultipleResultsReponse {
+export interface APIDatabasesRepsonse<D extends Date | string = Date>
+  extends MultipleResultsReponse {
   status: "success";
-  databases: Database[];
+  databases: Database<D>[];
 }
 
-export interface APIDatabaseRepsonse {
+export interface APIDatabaseRepsonse<D extends Date | string = Date> {
   status: "success";
-  database: Database;
+  database: Database<D>;
 }
 
 export interface APIDeletedDatabaseResponse {
@@ -17,3 +18,29 @@ export interface APIDeletedDatabaseResponse {
   collectionsDeleted: number;
   itemsDeleted: number;
 }
+
+export interface APIShareDatabaseResponse<D extends Date | string = Date> {
+  status: "success";
+  member?: DatabaseMember;
+  invitation?: DatabaseInvitation<D>;
+}
+
+export interface APIDatabaseMembersResponse {
+  status: "success";
+  members: DatabaseMember[];
+}
+
+export interface APIDatabaseMemberResponse {
+  status: "success";
+  member: DatabaseMember;
+}
+
+export interface APIDatabaseInvitationsResponse<D extends Date | string = Date> {
+  status: "success";
+  invitations: DatabaseInvitation<D>[];
+}
+
+export interface APIDatabaseInvitationResponse<D extends Date | string = Date> {
+  status: "success";
+  invitation: DatabaseInvitation<D>;
+}
@@ -1,8 +1,13 @@
-export interface Headers {
+export interface BaseHeaders {
+  [header: string]: string;
   Accept: string;
-  Authorization: string;
   "accept-version": string;
   "Content-Type": string;
+  "User-Agent": string;
+}
+
+export interface Headers extends BaseHeaders {
+  Authorization: string;
 }
 
 export interface MultipleResultsReponse {
@@ -2,12 +2,12 @@ import Item from "../itemInterfaces";
 import { APIDeletedCollectionResponse } from "./collection";
 import { MultipleResultsReponse } from "./default";
 
-export interface APIItemsResponse<T extends Item> extends MultipleResultsReponse {
+export interface APIItemsResponse<T extends Item<Date | string>> extends MultipleResultsReponse {
   status: "success";
   items: T[];
 }
 
-export interface APIItemResponse<T extends Item> {
+export interface APIItemResponse<T extends Item<Date | string>> {
   status: "success";
   item: T;
 }
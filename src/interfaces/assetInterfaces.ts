@@ -0,0 +1,67 @@
+import { Readable } from "stream";
+import { APIDeletedAssetResponse } from "./apiResponses/asset";
+
+/** The value of an `ImageRef` field. An uploaded `Asset` can be assigned as is */
+export interface ImageRef {
+  /** The ID of the asset */
+  _id: string;
+  /** The URL the image is served from */
+  url: string;
+}
+
+/** An uploaded file. `D` is the type of its dates: `string` for clients created with `rawDates` */
+export default interface Asset<D extends Date | string = Date> extends ImageRef {
+  /** The database the asset is uploaded to */
+  database: string;
+  /** The name of the uploaded file */
+  fileName: string;
+  /** The MIME type of the file (e.g. `image/png`) */
+  mimeType: string;
+  /** The size of the file in bytes */
+  size: number;
+  /** The width of an image in pixels */
+  width?: number;
+  /** The height of an image in pixels */
+  height?: number;
+  /** The ID of the user who uploaded the asset */
+  createdBy: string;
+  /** The date the file was uploaded */
+  createdAt: D;
+}
+
+/** The contents of an uploaded file: a buffer, a readable stream, or the path of a file */
+export type AssetSource = Buffer | Readable | string;
+
+export interface UploadProgress {
+  /** The number of bytes of the file sent so far */
+  loaded: number;
+  /** The size of the file in bytes, when it is known before the upload */
+  total?: number;
+}
+
+export interface UploadAssetOptions {
+  /**
+   * The name of the file. Defaults to the name of the file at the path, or `file`
+   */
+  fileName?: string;
+  /**
+   * The MIME type of the file. Defaults to the type of the extension of `fileName`
+   */
+  mimeType?: string;
+  /**
+   * The collection of the `ImageRef` field the asset is uploaded for. With `field`, the
+   * upload is rejected when the file is larger than the `maxSize` of the field
+   */
+  collection_id?: string;
+  /** The slug or ID of the `ImageRef` field the asset is uploaded for */
+  field?: string;
+  /**
+   * The maximum size of the file in bytes, in place of the `maxSize` of `field`. Larger
+   * files are rejected with an `AssetTooLargeError` without being sent
+   */
+  maxSize?: number;
+  /** Called every time a chunk of the file is sent */
+  onProgress?: (progress: UploadProgress) => void;
+}
+
+export type DeletedAssetResponse = Omit<APIDeletedAssetResponse, "status">;
@@ -0,0 +1,63 @@
+import CMSError from "../CMSError";
+import { ItemData } from "./itemInterfaces";
+
+export interface BulkOptions {
+  /**
+   * The maximum number of requests sent at the same time
+   * @default 5
+   */
+  concurrency?: number;
+  /**
+   * Stop sending requests after the first failure. Entries that were not sent are
+   * reported as skipped
+   * @default false
+   */
+  stopOnError?: boolean;
+}
+
+export interface BulkItemUpdate<T> {
+  /** The ID of the item being updated */
+  _id: string;
+  /** The updated fields of the item */
+  fields: Partial<ItemData<T>>;
+}
+
+export interface BulkSucceeded<T> {
+  status: "succeeded";
+  /** The position of the entry in the bulk operation */
+  index: number;
+  /** The ID of the item */
+  id: string;
+  /** The response of the request */
+  result: T;
+}
+
+export interface BulkFailed {
+  status: "failed";
+  /** The position of the entry in the bulk operation */
+  index: number;
+  /** The ID of the item, if it has one */
+  id?: string;
+  /** The error the request failed with */
+  error: CMSError;
+}
+
+export interface BulkSkipped {
+  status: "skipped";
+  /** The position of the entry in the bulk operation */
+  index: number;
+  /** The ID of the item, if it has one */
+  id?: string;
+  /** Why no request was made or applied for the entry */
+  reason: string;
+}
+
+export type BulkItemResult<T> = BulkSucceeded<T> | BulkFailed | BulkSkipped;
+
+export interface BulkResult<T> {
+  /** The result of every entry, in the order of the entries */
+  results: BulkItemResult<T>[];
+  succeeded: BulkSucceeded<T>[];
+  failed: BulkFailed[];
+  skipped: BulkSkipped[];
+}
@@ -50,7 +50,8 @@ export interface CollectionValidations {
   pattern?: RegExp;
 }
 
-export default interface Collection {
+/** A collection. `D` is the type of its dates: `string` for clients created with `rawDates` */
+export default interface Collection<D extends Date | string = Date> {
   /** Auto-generated ObjectId of the collection */
   _id: string;
   /** The name of the collection */
@@ -60,9 +61,9 @@ export default interface Collection {
   /** The database the collection is added to */
   database: string | ObjectId;
   /** The date the collection was created (Immutable) */
-  createdAt: Date;
+  createdAt: D;
   /** The date the collection was last created (Not editable by user) */
-  lastUpdated: Date;
+  lastUpdated: D;
   /** Unique slug identifier for the collection */
   slug: string;
   /** A custom ID for the collection */
@@ -82,8 +83,8 @@ export interface CollectionValidationOption {
   name: string;
 }
 
-export type BasicCollectionInfo = Pick<
-  Collection,
+export type BasicCollectionInfo<D extends Date | string = Date> = Pick<
+  Collection<D>,
   "_id" | "name" | "slug" | "createdAt" | "lastUpdated" | "singularName"
 >;
 
@@ -92,6 +93,11 @@ export interface CollectionData {
   name: string;
   /** The unique slug of the collection */
   slug?: string;
+  /**
+   * The name of the collection in singular form
+   * @default The name without a trailing "s"
+   */
+  singularName?: string;
   /**
    * An array of collection fields. Each collection field must have a `name` and `type`.
    *
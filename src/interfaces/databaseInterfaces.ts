@@ -1,6 +1,7 @@
 import { APIDeletedDatabaseResponse } from "./apiResponses/database";
 
-export default interface Database {
+/** A database. `D` is the type of its dates: `string` for clients created with `rawDates` */
+export default interface Database<D extends Date | string = Date> {
   /** The database _id */
   _id: string;
   /** The name of the database */
@@ -12,18 +13,44 @@ export default interface Database {
   /** The timezone of the client of the database creator */
   timezone: string;
   /** The date the database was created */
-  createdAt: Date;
+  createdAt: D;
 }
 export type DatabaseShareRoles = "editor" | "viewer";
-export type ShareResult = SharePassed | ShareFailed;
-interface SharePassed {
-  shared: true;
-  message: string;
+/** The role of a user within a database. Every database has a single owner */
+export type DatabaseRole = "owner" | DatabaseShareRoles;
+
+export interface DatabaseMember {
+  /** The _id of the user */
+  user_id: string;
+  /** The email of the user */
+  email: string;
+  /** The first name of the user */
+  firstName: string;
+  /** The last name of the user */
+  lastName: string;
+  /** The role of the user within the database */
+  role: DatabaseRole;
 }
 
-interface ShareFailed {
-  shared: false;
-  message: string;
+export interface DatabaseInvitation<D extends Date | string = Date> {
+  /** The invitation _id */
+  _id: string;
+  /** The email the database was shared with */
+  email: string;
+  /** The role the user will have once they sign up */
+  role: DatabaseShareRoles;
+  /** The user that shared the database */
+  invitedBy: string;
+  /** The date the database was shared */
+  createdAt: D;
 }
 
+/**
+ * The result of sharing a database. Users that have an account become members right
+ * away; other emails get a pending invitation
+ */
+export type ShareResult<D extends Date | string = Date> =
+  | { type: "member"; member: DatabaseMember }
+  | { type: "invitation"; invitation: DatabaseInvitation<D> };
+
 export type DeletedDatabaseResponse = Omit<APIDeletedDatabaseResponse, "status">;
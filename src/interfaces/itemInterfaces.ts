@@ -1,7 +1,12 @@
 import { ObjectId } from "mongodb";
 import { APIDeletedItemResponse } from "./apiResponses/items";
+import { FieldCondition } from "./queryInterfaces";
 
-export default interface Item {
+/**
+ * An item of a collection. `D` is the type of its timestamps: `string` for clients created
+ * with `rawDates`
+ */
+export default interface Item<D extends Date | string = Date> {
   _id: ObjectId | string;
   /** The collection ID the item belongs to */
   _cid: ObjectId | string;
@@ -12,9 +17,9 @@ export default interface Item {
   /** The last user to update the item */
   "updated-by": string;
   /** The date the item was last updated */
-  "updated-on": string | Date | number;
+  "updated-on": D;
   /** The date the item was created (Immutable) */
-  "created-on": string;
+  "created-on": D;
   /** Test */
   item_id: string;
   /** Additional Fields */
@@ -30,3 +35,22 @@ export interface ItemField {
 }
 
 export type DeletedItemResponse = Omit<APIDeletedItemResponse, "status">;
+
+export interface CreateItemOptions {
+  /**
+   * Derive a slug for an item created without one, when the `slugs` option is set. Set
+   * to false to create the item with its data unchanged
+   * @default true
+   */
+  deriveSlug?: boolean;
+}
+
+export type RemoveIndex<T> = {
+  [P in keyof T as string extends P ? never : number extends P ? never : P]: T[P];
+};
+
+/** The user-defined fields of an item, without the fields managed by the CMS */
+export type ItemData<T> = Omit<RemoveIndex<T>, keyof RemoveIndex<Item>>;
+
+/** Filter on the fields of an item. Each field is matched by value or by comparison operators */
+export type ItemFilter<T> = { [P in keyof RemoveIndex<T>]?: FieldCondition<RemoveIndex<T>[P]> };
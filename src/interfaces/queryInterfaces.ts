@@ -1,4 +1,11 @@
-export type FinalQuery = Omit<QueryFeatures<any>, "fields"> & { fields?: string };
+import { MultipleResultsReponse } from "./apiResponses/default";
+
+export type FinalQuery = Omit<QueryFeatures<any>, "fields" | "sort"> & {
+  fields?: string;
+  sort?: string;
+  /** Filter parameters, e.g. `rating[gte]`. Lists are sent as a repeated parameter */
+  [param: string]: string | number | string[] | undefined;
+};
 export interface QueryFeatures<T> {
   /**
    * @param page The paginated page of the results
@@ -17,3 +24,28 @@ export interface QueryFeatures<T> {
   /** @param fields An array of fields each result will limit itself to  */
   fields?: Array<keyof T>;
 }
+
+/** Comparison operators the API accepts as `field[operator]=value` */
+export type QueryOperator = "ne" | "gt" | "gte" | "lt" | "lte" | "in" | "nin";
+
+/** A field value, or an object of `$`-prefixed comparison operators */
+export type FieldCondition<V> =
+  | V
+  | {
+      $eq?: V;
+      $ne?: V;
+      $gt?: V;
+      $gte?: V;
+      $lt?: V;
+      $lte?: V;
+      $in?: V[];
+      $nin?: V[];
+    };
+
+export type SortOrder = 1 | -1 | "asc" | "desc" | "ascending" | "descending";
+
+/** A single page of results with its pagination metadata */
+export interface PageResult<T> extends MultipleResultsReponse {
+  /** The results on the page */
+  data: T[];
+}
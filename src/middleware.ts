@@ -0,0 +1,82 @@
+import { AxiosResponse, Method } from "axios";
+import CMSError from "./CMSError";
+
+export interface RequestContext {
+  /** The HTTP method of the request */
+  method: Method;
+  /** The path of the request, relative to the API endpoint */
+  path: string;
+  /** The query string parameters of the request */
+  query: { [param: string]: any };
+  /** The body of the request */
+  data: any;
+  /** Headers added to the request. The `Authorization` header is always set by the client */
+  headers: { [header: string]: string };
+  /** Values shared between the hooks of a single request, e.g. its start time */
+  state: { [key: string]: any };
+}
+
+export interface Middleware {
+  /**
+   * Called before a request is sent. Changes to the `query`, `data` and `headers` of the
+   * context are sent with the request
+   */
+  beforeRequest?: (context: RequestContext) => void | Promise<void>;
+  /**
+   * Called with the response of a successful request. Returning a response replaces it
+   */
+  afterResponse?: (
+    context: RequestContext,
+    response: AxiosResponse
+  ) => AxiosResponse | void | Promise<AxiosResponse | void>;
+  /**
+   * Called with the error of a failed request, after retries. Returning an error
+   * replaces it. Errors that are not a `CMSError`, e.g. thrown by other hooks, are
+   * wrapped in one with the original error as its `cause`
+   */
+  onError?: (context: RequestContext, error: CMSError) => Error | void | Promise<Error | void>;
+}
+
+/**
+ * Runs the hooks of the middleware added with `use()`, in the order they were added
+ */
+export default class MiddlewareChain {
+  private middleware: Middleware[] = [];
+
+  /**
+   * Adds middleware to the chain and returns a function that removes it
+   * @param middleware The hooks of the middleware
+   */
+  use(middleware: Middleware) {
+    this.middleware.push(middleware);
+    return () => {
+      this.middleware = this.middleware.filter((m) => m !== middleware);
+    };
+  }
+
+  async beforeRequest(context: RequestContext) {
+    for (const { beforeRequest } of [...this.middleware]) {
+      if (beforeRequest) await beforeRequest(context);
+    }
+  }
+
+  async afterResponse<T>(context: RequestContext, response: AxiosResponse<T>) {
+    for (const { afterResponse } of [...this.middleware]) {
+      if (!afterResponse) continue;
+      const replaced = await afterResponse(context, response);
+      if (replaced) response = replaced;
+    }
+    return response;
+  }
+
+  async onError(context: RequestContext, error: Error) {
+    for (const { onError } of [...this.middleware]) {
+      if (!onError) continue;
+      // Wrapped once, so every hook gets the same error
+      if (!(error instanceof CMSError)) error = new CMSError(error.message, { cause: error });
+      const replaced = await onError(context, error as CMSError);
+      if (replaced) error = replaced;
+    }
+    return error;
+  }
+}
@@ -0,0 +1,847 @@
+import { AxiosAdapter, AxiosRequestConfig, AxiosResponse } from "axios";
+import { createHash, randomBytes } from "crypto";
+import ExtendableError from "es6-error";
+import { Readable } from "stream";
+import fieldTypes from "../enums/fieldTypes";
+import Asset from "../interfaces/assetInterfaces";
+import Collection, {
+  BasicCollectionInfo,
+  CollectionDataFields,
+  CollectionField,
+} from "../interfaces/collectionInterfaces";
+import Database, {
+  DatabaseInvitation,
+  DatabaseMember,
+  DatabaseShareRoles,
+} from "../interfaces/databaseInterfaces";
+import Item from "../interfaces/itemInterfaces";
+import User from "../interfaces/userInterface";
+import { parseMultipart, ParsedPart } from "../utils/multipart";
+import { findSlugFields } from "../utils/slugify";
+import validateItem from "../validation/itemValidator";
+
+export interface MockServerOptions {
+  /**
+   * The user the server authenticates every request as
+   * @default A generated test user
+   */
+  user?: Partial<User>;
+  /**
+   * The only bearer token the server accepts. Any token is accepted when not set
+   */
+  token?: string;
+  /**
+   * Validate item data against the fields of its collection, rejecting invalid items
+   * with a 400 response
+   * @default true
+   */
+  validateItems?: boolean;
+  /**
+   * Other users that have an account. Sharing a database with their email makes them
+   * members, while any other email gets a pending invitation
+   * @default []
+   */
+  users?: Array<Partial<User>>;
+  /**
+   * The base URL of the `url` of uploaded assets
+   * @default "https://assets.example.com"
+   */
+  assetHost?: string;
+}
+
+interface MockRequest {
+  params: string[];
+  query: { [param: string]: any };
+  body: any;
+}
+
+/** Items are stored as they are sent by the API, with ISO string timestamps */
+type StoredItem = Omit<Item, "created-on" | "updated-on"> & {
+  "created-on": string;
+  "updated-on": string;
+};
+
+type RouteHandler = (req: MockRequest) => { status?: number; data: any };
+
+class MockResponseError extends ExtendableError {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const DEFAULT_LIMIT = 100;
+const OPERATORS = ["ne", "gt", "gte", "lt", "lte", "in", "nin"];
+const ROLES: DatabaseShareRoles[] = ["editor", "viewer"];
+
+const objectId = () => randomBytes(12).toString("hex");
+
+const now = () => new Date().toISOString();
+
+const slugify = (name: string) =>
+  name
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+
+const notFound = (resource: string) =>
+  new MockResponseError(404, `No ${resource} found with that ID`);
+
+const badRequest = (message: string) => new MockResponseError(400, message);
+
+/**
+ * In-memory implementation of the CMS API for tests that run without a server. Pass
+ * its `transport` to the client, and every request is answered from memory with the
+ * same response shapes as the API:
+ *
+ *      const server = new MockCMSServer();
+ *      const cms = init({ token: "test", transport: server.transport });
+ */
+export default class MockCMSServer {
+  /** The user every request is authenticated as */
+  user: User;
+  private users: User[];
+  private token?: string;
+  private validateItems: boolean;
+  private databases = new Map<string, Database>();
+  private members = new Map<string, DatabaseMember[]>();
+  private invitations = new Map<string, DatabaseInvitation[]>();
+  private collections = new Map<string, Collection>();
+  private items = new Map<string, StoredItem[]>();
+  private assets = new Map<string, Asset>();
+  private assetContents = new Map<string, Buffer>();
+  private assetHost: string;
+  private routes: Array<[string, RegExp, RouteHandler]> = [];
+
+  constructor({
+    user = {},
+    token,
+    validateItems = true,
+    users = [],
+    assetHost = "https://assets.example.com",
+  }: MockServerOptions = {}) {
+    this.user = {
+      _id: objectId(),
+      email: "test@example.com",
+      firstName: "Test",
+      lastName: "User",
+      ...user,
+    };
+    this.users = users.map((other) => ({
+      _id: objectId(),
+      email: "",
+      firstName: "",
+      lastName: "",
+      ...other,
+    }));
+    this.token = token;
+    this.validateItems = validateItems;
+    this.assetHost = assetHost.replace(/\/+$/, "");
+
+    this.route("GET", "/users/me", () => ({ data: { user: this.user } }));
+
+    this.route("GET", "/databases", ({ query }) => {
+      const databases = paginate([...this.databases.values()], query);
+      return { data: { ...databases.meta, databases: databases.data } };
+    });
+    this.route("POST", "/databases", ({ body }) => ({
+      status: 201,
+      data: { database: this.createDatabase(body.name) },
+    }));
+    this.route("GET", "/databases/:id", ({ params }) => ({
+      data: { database: this.findDatabase(params[0]) },
+    }));
+    this.route("PATCH", "/databases/:id", ({ params, body }) => {
+      const database = this.findDatabase(params[0]);
+      if (body.name !== undefined) {
+        if (!body.name) throw badRequest("A database must have a name");
+        Object.assign(database, { name: body.name, slug: slugify(body.name) });
+      }
+      return { data: { database } };
+    });
+    this.route("DELETE", "/databases/:id", ({ params }) => {
+      const database = this.findDatabase(params[0]);
+      let collectionsDeleted = 0;
+      let itemsDeleted = 0;
+      for (const collection of [...this.collections.values()]) {
+        if (collection.database !== database._id) continue;
+        itemsDeleted += this.removeCollection(collection._id);
+        collectionsDeleted++;
+      }
+      for (const asset of [...this.assets.values()]) {
+        if (asset.database === database._id) this.removeAsset(asset._id);
+      }
+      this.databases.delete(database._id);
+      this.members.delete(database._id);
+      this.invitations.delete(database._id);
+      return { data: { databasesDeleted: 1, collectionsDeleted, itemsDeleted } };
+    });
+    this.route("POST", "/databases/:id/share", ({ params, body }) => {
+      const database = this.findDatabase(params[0]);
+      this.requireOwner(database._id);
+      const { email, role } = body;
+      if (!email) throw badRequest("Please provide an email");
+      if (!ROLES.includes(role)) throw badRequest(`Role must be one of: ${ROLES.join(", ")}`);
+      if (email === this.user.email) throw badRequest("You cannot share a database with yourself");
+      const user = this.users.find((other) => other.email === email);
+      if (!user) {
+        const invitations = this.invitations.get(database._id)!;
+        let invitation = invitations.find((other) => other.email === email);
+        if (invitation) {
+          invitation.role = role;
+        } else {
+          invitation = {
+            _id: objectId(),
+            email,
+            role,
+            invitedBy: String(this.user._id),
+            createdAt: new Date(),
+          };
+          invitations.push(invitation);
+        }
+        return { status: 201, data: { invitation } };
+      }
+      const members = this.members.get(database._id)!;
+      let member = members.find((other) => other.user_id === String(user._id));
+      if (member && member.role === "owner") throw badRequest(`${email} owns this database`);
+      if (member) {
+        member.role = role;
+      } else {
+        member = toMember(user, role);
+        members.push(member);
+      }
+      return { status: 201, data: { member } };
+    });
+    this.route("GET", "/databases/:id/members", ({ params }) => {
+      const database = this.findDatabase(params[0]);
+      return { data: { members: this.members.get(database._id) } };
+    });
+    this.route("PATCH", "/databases/:id/members/:id", ({ params, body }) => {
+      const database = this.findDatabase(params[0]);
+      this.requireOwner(database._id);
+      const member = this.findMember(database._id, params[1]);
+      if (!ROLES.includes(body.role)) throw badRequest(`Role must be one of: ${ROLES.join(", ")}`);
+      if (member.role === "owner") {
+        throw badRequest("The role of the owner can only change by transferring ownership");
+      }
+      member.role = body.role;
+      return { data: { member } };
+    });
+    this.route("DELETE", "/databases/:id/members/:id", ({ params }) => {
+      const database = this.findDatabase(params[0]);
+      this.requireOwner(database._id);
+      const member = this.findMember(database._id, params[1]);
+      if (member.role === "owner") throw badRequest("The owner of a database cannot be removed");
+      const members = this.members.get(database._id)!;
+      members.splice(members.indexOf(member), 1);
+      return { data: { member } };
+    });
+    this.route("POST", "/databases/:id/transfer", ({ params, body }) => {
+      const database = this.findDatabase(params[0]);
+      const owner = this.requireOwner(database._id);
+      if (!body.user_id) throw badRequest("Please provide a user_id");
+      const member = this.findMember(database._id, body.user_id);
+      if (member !== owner) {
+        member.role = "owner";
+        owner.role = "editor";
+      }
+      return { data: { members: this.members.get(database._id) } };
+    });
+    this.route("GET", "/databases/:id/invitations", ({ params }) => {
+      const database = this.findDatabase(params[0]);
+      return { data: { invitations: this.invitations.get(database._id) } };
+    });
+    this.route("DELETE", "/databases/:id/invitations/:id", ({ params }) => {
+      const database = this.findDatabase(params[0]);
+      this.requireOwner(database._id);
+      const invitations = this.invitations.get(database._id)!;
+      const invitation = invitations.find((other) => other._id === params[1]);
+      if (!invitation) throw notFound("invitation");
+      invitations.splice(invitations.indexOf(invitation), 1);
+      return { data: { invitation } };
+    });
+    this.route("GET", "/databases/:id/collections", ({ params, query }) => {
+      const database = this.findDatabase(params[0]);
+      const collections = [...this.collections.values()]
+        .filter((collection) => collection.database === database._id)
+        .map(toBasicInfo);
+      const page = paginate(collections, query);
+      return { data: { ...page.meta, database: database._id, collections: page.data } };
+    });
+    this.route("GET", "/databases/:id/assets", ({ params, query }) => {
+      const database = this.findDatabase(params[0]);
+      const assets = [...this.assets.values()].filter((asset) => asset.database === database._id);
+      const page = paginate(assets, query);
+      return { data: { ...page.meta, assets: page.data } };
+    });
+    this.route("POST", "/databases/:id/assets", ({ params, body }) => {
+      const database = this.findDatabase(params[0]);
+      const file = (body.files || []).find((part: ParsedPart) => part.name === "file");
+      if (!file) throw badRequest("Please upload a file");
+      const fileName = file.fileName || "file";
+      const _id = objectId();
+      const asset: Asset = {
+        _id,
+        url: `${this.assetHost}/${_id}/${encodeURIComponent(fileName)}`,
+        database: database._id,
+        fileName,
+        mimeType: file.mimeType || "application/octet-stream",
+        size: file.content.length,
+        createdBy: String(this.user._id),
+        createdAt: new Date(),
+      };
+      this.assets.set(_id, asset);
+      this.assetContents.set(_id, file.content);
+      return { status: 201, data: { asset } };
+    });
+
+    this.route("GET", "/assets/:id", ({ params }) => ({
+      data: { asset: this.findAsset(params[0]) },
+    }));
+    this.route("DELETE", "/assets/:id", ({ params }) => {
+      this.removeAsset(this.findAsset(params[0])._id);
+      return { data: { assetsDeleted: 1 } };
+    });
+
+    this.route("POST", "/collections", ({ body }) => ({
+      status: 201,
+      data: { collection: this.createCollection(body) },
+    }));
+    this.route("GET", "/collections/:id", ({ params }) => ({
+      data: { collection: this.findCollection(params[0]) },
+    }));
+    this.route("PATCH", "/collections/:id", ({ params, body }) => {
+      const collection = this.findCollection(params[0]);
+      const update = body.$set || body;
+      if (update.name !== undefined) {
+        if (!update.name) throw badRequest("A collection must have a name");
+        collection.name = update.name;
+      }
+      if (update.slug !== undefined) collection.slug = this.uniqueSlug(update.slug, collection);
+      this.touch(collection);
+      return { data: { collection } };
+    });
+    this.route("DELETE", "/collections/:id", ({ params }) => {
+      const collection = this.findCollection(params[0]);
+      const itemsDeleted = this.removeCollection(collection._id);
+      return { data: { collectionsDeleted: 1, itemsDeleted } };
+    });
+
+    this.route("GET", "/collections/:id/fields", ({ params }) => ({
+      data: { fields: this.findCollection(params[0]).fields },
+    }));
+    this.route("POST", "/collections/:id/fields", ({ params, body }) => {
+      const collection = this.findCollection(params[0]);
+      const field = this.buildField(body, collection.fields);
+      collection.fields.push(field);
+      this.touch(collection);
+      return { status: 201, data: { field } };
+    });
+    this.route("GET", "/collections/:id/fields/:id", ({ params }) => ({
+      data: { field: this.findField(params[0], params[1]) },
+    }));
+    this.route("PATCH", "/collections/:id/fields/:id", ({ params, body }) => {
+      const field = this.findField(params[0], params[1]);
+      if (!field.editable) throw badRequest(`The field '${field.name}' cannot be edited`);
+      if (body.type !== undefined && body.type !== field.type) {
+        throw badRequest("The type of a field cannot be changed");
+      }
+      const { _id, slug, editable, ...update } = body;
+      Object.assign(field, update);
+      this.touch(this.findCollection(params[0]));
+      return { data: { field } };
+    });
+    this.route("DELETE", "/collections/:id/fields/:id", ({ params }) => {
+      const collection = this.findCollection(params[0]);
+      const field = this.findField(params[0], params[1]);
+      if (!field.editable) throw badRequest(`The field '${field.name}' cannot be deleted`);
+      collection.fields = collection.fields.filter((f) => f !== field);
+      this.touch(collection);
+      return { data: { fieldDeleted: true } };
+    });
+
+    this.route("GET", "/collections/:id/items", ({ params, query }) => {
+      this.findCollection(params[0]);
+      const items = filterItems(this.items.get(params[0])!, query);
+      const page = paginate(items, query);
+      return { data: { ...page.meta, items: page.data.map((item) => select(item, query)) } };
+    });
+    this.route("POST", "/collections/:id/items", ({ params, body }) => {
+      const collection = this.findCollection(params[0]);
+      const data = this.checkItemData(collection, body, false);
+      this.checkUniqueSlug(collection, data);
+      const timestamp = now();
+      const _id = objectId();
+      const item: StoredItem = {
+        ...data,
+        _id,
+        _cid: collection._id,
+        database: String(collection.database),
+        "created-by": String(this.user._id),
+        "updated-by": String(this.user._id),
+        "created-on": timestamp,
+        "updated-on": timestamp,
+        item_id: _id,
+      };
+      this.items.get(collection._id)!.push(item);
+      return { status: 201, data: { item } };
+    });
+    this.route("GET", "/collections/:id/items/:id", ({ params }) => ({
+      data: { item: this.findItem(params[0], params[1]) },
+    }));
+    this.route("PATCH", "/collections/:id/items/:id", ({ params, body }) => {
+      const item = this.findItem(params[0], params[1]);
+      const collection = this.findCollection(params[0]);
+      const data = this.checkItemData(collection, body, true);
+      this.checkUniqueSlug(collection, data, item);
+      Object.assign(item, data, this.updateMeta());
+      return { data: { item } };
+    });
+    this.route("PUT", "/collections/:id/items/:id", ({ params, body }) => {
+      const item = this.findItem(params[0], params[1]);
+      const collection = this.findCollection(params[0]);
+      const data = this.checkItemData(collection, body, false);
+      this.checkUniqueSlug(collection, data, item);
+      for (const key of Object.keys(item)) {
+        if (!metaKeys.includes(key)) delete item[key];
+      }
+      Object.assign(item, data, this.updateMeta());
+      return { data: { item } };
+    });
+    this.route("DELETE", "/collections/:id/items/:id", ({ params }) => {
+      const item = this.findItem(params[0], params[1]);
+      const items = this.items.get(params[0])!;
+      items.splice(items.indexOf(item), 1);
+      return { data: { itemsDeleted: 1 } };
+    });
+  }
+
+  /**
+   * Answers a request from memory. Pass it as the `transport` option of the client
+   */
+  transport: AxiosAdapter = async (config: AxiosRequestConfig) => {
+    // Uploads are streamed, and read in full before they are handled
+    if (config.data instanceof Readable) config = { ...config, data: await readAll(config.data) };
+    let { status, data } = this.handle(config);
+    const headers: { [header: string]: string } = { "content-type": "application/json" };
+    if ((config.method || "get").toLowerCase() === "get" && status === 200) {
+      // Responses carry an ETag, so clients can revalidate them with If-None-Match
+      headers.etag = `"${createHash("sha1").update(JSON.stringify(data)).digest("hex")}"`;
+      if (getHeader(config.headers, "If-None-Match") === headers.etag) {
+        status = 304;
+        data = "";
+      }
+    }
+    const response: AxiosResponse = {
+      data,
+      status,
+      statusText: String(status),
+      headers,
+      config,
+    };
+    const valid = config.validateStatus ? config.validateStatus(status) : status < 400;
+    if (valid) return response;
+    throw Object.assign(new Error(`Request failed with status code ${status}`), {
+      config,
+      response,
+      isAxiosError: true,
+    });
+  };
+
+  /** Removes every database, collection and item */
+  reset() {
+    this.databases.clear();
+    this.members.clear();
+    this.invitations.clear();
+    this.collections.clear();
+    this.items.clear();
+    this.assets.clear();
+    this.assetContents.clear();
+  }
+
+  /**
+   * Returns the members of a database by `database_id`, including its owner
+   * @param database_id The unique database ID
+   */
+  getMembers(database_id: string): DatabaseMember[] {
+    return [...(this.members.get(database_id) || [])];
+  }
+
+  /**
+   * Returns the contents of an uploaded asset by `asset_id`
+   * @param asset_id The unique asset ID
+   */
+  getAssetContent(asset_id: string): Buffer | undefined {
+    return this.assetContents.get(asset_id);
+  }
+
+  private route(method: string, pattern: string, handler: RouteHandler) {
+    const regex = new RegExp(`^${pattern.replace(/:id/g, "([^/]+)")}/?$`);
+    this.routes.push([method, regex, handler]);
+  }
+
+  private handle(config: AxiosRequestConfig): { status: number; data: any } {
+    const method = (config.method || "get").toUpperCase();
+    const path = getPath(config.url || "");
+    try {
+      const authorization = getHeader(config.headers, "Authorization");
+      const token = authorization && authorization.replace(/^Bearer\s+/i, "");
+      if (!token || (this.token !== undefined && token !== this.token)) {
+        throw new MockResponseError(401, "You are not logged in! Please log in to get access.");
+      }
+      for (const [routeMethod, regex, handler] of this.routes) {
+        const match = routeMethod === method && regex.exec(path);
+        if (!match) continue;
+        const body = parseBody(config);
+        const { status = 200, data } = handler({
+          params: match.slice(1),
+          query: config.params || {},
+          body: body || {},
+        });
+        return { status, data: { status: "success", ...clone(data) } };
+      }
+      throw new MockResponseError(404, `Can't find ${method} ${path} on this server`);
+    } catch (err) {
+      if (!(err instanceof MockResponseError)) throw err;
+      return { status: err.status, data: { status: "fail", message: err.message } };
+    }
+  }
+
+  private createDatabase(name: string) {
+    if (!name) throw badRequest("A database must have a name");
+    const database: Database = {
+      _id: objectId(),
+      name,
+      createdBy: String(this.user._id),
+      slug: slugify(name),
+      timezone: "UTC",
+      createdAt: new Date(),
+    };
+    this.databases.set(database._id, database);
+    this.members.set(database._id, [toMember(this.user, "owner")]);
+    this.invitations.set(database._id, []);
+    return database;
+  }
+
+  private createCollection(body: any) {
+    const { database: database_id, name, slug, singularName, fields = [] } = body;
+    if (!database_id) throw badRequest("Please provide a database");
+    if (!this.databases.has(database_id)) throw badRequest(`Invalid database: ${database_id}`);
+    if (!name) throw badRequest("A collection must have a name");
+    const timestamp = new Date();
+    const collection: Collection = {
+      _id: objectId(),
+      name,
+      singularName: singularName || name.replace(/s$/i, ""),
+      database: database_id,
+      createdAt: timestamp,
+      lastUpdated: timestamp,
+      slug: "",
+      shortId: randomBytes(4).toString("hex"),
+      createdBy: String(this.user._id),
+      updatedBy: String(this.user._id),
+      fields: [],
+    };
+    collection.slug = this.uniqueSlug(slug || name, collection);
+    for (const field of fields as CollectionDataFields[]) {
+      collection.fields.push(this.buildField(field, collection.fields));
+    }
+    this.collections.set(collection._id, collection);
+    this.items.set(collection._id, []);
+    return collection;
+  }
+
+  private buildField(data: CollectionDataFields, existing: CollectionField[]): CollectionField {
+    if (!data || !data.name) throw badRequest("A field must have a name");
+    if (!fieldTypes.includes(data.type)) throw badRequest(`Invalid field type: ${data.type}`);
+    const slug = slugify(data.name);
+    if (existing.some((field) => field.slug === slug)) {
+      throw badRequest(`A field with the slug '${slug}' already exists`);
+    }
+    const { primaryName, primarySlug, ...props } = data;
+    return {
+      ...props,
+      _id: objectId(),
+      slug,
+      required: !!data.required,
+      editable: true,
+      ...(primaryName || primarySlug ? { primary: true } : {}),
+    };
+  }
+
+  private uniqueSlug(name: string, collection: Collection) {
+    const base = slugify(name);
+    const taken = (slug: string) =>
+      [...this.collections.values()].some(
+        (c) => c !== collection && c.database === collection.database && c.slug === slug
+      );
+    let slug = base;
+    for (let i = 2; taken(slug); i++) slug = `${base}-${i}`;
+    return slug;
+  }
+
+  private checkItemData(collection: Collection, body: any, partial: boolean) {
+    const data: { [field: string]: any } = {};
+    for (const key of Object.keys(body)) {
+      if (!metaKeys.includes(key)) data[key] = body[key];
+    }
+    if (this.validateItems) {
+      const { errors } = validateItem(collection.fields, data, { partial });
+      if (errors.length) throw badRequest(errors.map((error) => error.message).join("; "));
+    }
+    return data;
+  }
+
+  /**
+   * Rejects item data whose slug is used by another item of the collection
+   * @param collection The collection of the item
+   * @param data The data of the item
+   * @param item The item being updated
+   */
+  private checkUniqueSlug(
+    collection: Collection,
+    data: { [field: string]: any },
+    item?: StoredItem
+  ) {
+    const { slugField } = findSlugFields(collection.fields);
+    const slug = slugField && data[slugField.slug];
+    if (!slugField || !slug) return;
+    const taken = this.items
+      .get(collection._id)!
+      .some((other) => other !== item && other[slugField.slug] === slug);
+    if (taken) throw badRequest(`An item with the slug '${slug}' already exists`);
+  }
+
+  private updateMeta() {
+    return { "updated-by": String(this.user._id), "updated-on": now() };
+  }
+
+  private touch(collection: Collection) {
+    collection.lastUpdated = new Date();
+    collection.updatedBy = String(this.user._id);
+  }
+
+  private removeCollection(collection_id: string) {
+    const itemsDeleted = (this.items.get(collection_id) || []).length;
+    this.collections.delete(collection_id);
+    this.items.delete(collection_id);
+    return itemsDeleted;
+  }
+
+  private findDatabase(database_id: string) {
+    const database = this.databases.get(database_id);
+    if (!database) throw notFound("database");
+    return database;
+  }
+
+  private findMember(database_id: string, user_id: string) {
+    const member = this.members.get(database_id)!.find((other) => other.user_id === user_id);
+    if (!member) throw notFound("member");
+    return member;
+  }
+
+  /**
+   * Returns the membership of the user in a database, if they own it
+   * @param database_id The unique database ID
+   */
+  private requireOwner(database_id: string) {
+    const owner = this.members
+      .get(database_id)!
+      .find((member) => member.user_id === String(this.user._id));
+    if (!owner || owner.role !== "owner") {
+      throw new MockResponseError(403, "Only the owner of a database can manage its members");
+    }
+    return owner;
+  }
+
+  private findAsset(asset_id: string) {
+    const asset = this.assets.get(asset_id);
+    if (!asset) throw notFound("asset");
+    return asset;
+  }
+
+  private removeAsset(asset_id: string) {
+    this.assets.delete(asset_id);
+    this.assetContents.delete(asset_id);
+  }
+
+  private findCollection(collection_id: string) {
+    const collection = this.collections.get(collection_id);
+    if (!collection) throw notFound("collection");
+    return collection;
+  }
+
+  private findField(collection_id: string, field_id: string) {
+    const collection = this.findCollection(collection_id);
+    const field = collection.fields.find((f) => String(f._id) === field_id);
+    if (!field) throw notFound("field");
+    return field;
+  }
+
+  private findItem(collection_id: string, item_id: string) {
+    this.findCollection(collection_id);
+    const item = this.items.get(collection_id)!.find((i) => String(i._id) === item_id);
+    if (!item) throw notFound("item");
+    return item;
+  }
+}
+
+/**
+ * Creates an in-memory CMS server. Pass its `transport` to the client:
+ *
+ *      const cms = init({ token: "test", transport: createMockServer().transport });
+ * @param options
+ */
+export const createMockServer = (options?: MockServerOptions) => new MockCMSServer(options);
+
+const metaKeys = [
+  "_id",
+  "_cid",
+  "database",
+  "created-by",
+  "updated-by",
+  "updated-on",
+  "created-on",
+  "item_id",
+];
+
+const reservedParams = ["page", "limit", "sort", "fields"];
+
+const clone = <T>(data: T): T => JSON.parse(JSON.stringify(data));
+
+const getPath = (url: string) => {
+  const pathname = url.replace(/^[a-z]+:\/\/[^/]+/i, "").split("?")[0];
+  const match = /\/(?:databases|collections|assets|users)(?:\/.*)?$/.exec(pathname);
+  return match ? match[0] : pathname;
+};
+
+const getHeader = (headers: any = {}, name: string): string | undefined => {
+  const key = Object.keys(headers).find((header) => header.toLowerCase() === name.toLowerCase());
+  return key ? headers[key] : undefined;
+};
+
+/**
+ * Returns the body of a request: the parsed JSON, or the parts of a multipart upload
+ */
+const parseBody = (config: AxiosRequestConfig) => {
+  const contentType = getHeader(config.headers, "Content-Type") || "";
+  if (Buffer.isBuffer(config.data) && /^multipart\/form-data/i.test(contentType)) {
+    return { files: parseMultipart(config.data, contentType) };
+  }
+  return typeof config.data === "string" ? JSON.parse(config.data) : config.data;
+};
+
+const readAll = async (stream: Readable) => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream)
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  return Buffer.concat(chunks);
+};
+
+const toMember = (user: User, role: DatabaseMember["role"]): DatabaseMember => ({
+  user_id: String(user._id),
+  email: user.email,
+  firstName: user.firstName,
+  lastName: user.lastName,
+  role,
+});
+
+const toBasicInfo = (collection: Collection): BasicCollectionInfo => {
+  const { _id, name, slug, createdAt, lastUpdated, singularName } = collection;
+  return { _id, name, slug, createdAt, lastUpdated, singularName };
+};
+
+const paginate = <T>(data: T[], query: { [param: string]: any }) => {
+  const page = Math.max(1, Number(query.page) || 1);
+  const limit = Math.max(1, Number(query.limit) || DEFAULT_LIMIT);
+  const results = data.slice((page - 1) * limit, page * limit);
+  return { data: results, meta: { results: results.length, page, limit } };
+};
+
+/**
+ * Compares a stored value to a query string value, converting the query value to the
+ * type of the stored value
+ */
+const compare = (stored: any, value: string) => {
+  if (typeof stored === "number") return stored - Number(value);
+  if (typeof stored === "boolean") return stored === (value === "true") ? 0 : 1;
+  const a = String(stored);
+  return a < value ? -1 : a > value ? 1 : 0;
+};
+
+const matches = (stored: any, operator: string, param: string | string[]) => {
+  // Lists are sent as a repeated parameter, or joined with commas
+  const values = Array.isArray(param) ? param : param.split(",");
+  const value = String(param);
+  const equals = (v: string) =>
+    Array.isArray(stored) ? stored.some((s) => compare(s, v) === 0) : compare(stored, v) === 0;
+  if (stored === undefined || stored === null) return operator === "ne" || operator === "nin";
+  switch (operator) {
+    case "eq":
+      return equals(value);
+    case "ne":
+      return !equals(value);
+    case "in":
+      return values.some(equals);
+    case "nin":
+      return !values.some(equals);
+    case "gt":
+      return compare(stored, value) > 0;
+    case "gte":
+      return compare(stored, value) >= 0;
+    case "lt":
+      return compare(stored, value) < 0;
+    case "lte":
+      return compare(stored, value) <= 0;
+    default:
+      throw badRequest(`Invalid query operator: ${operator}`);
+  }
+};
+
+/**
+ * Filters and sorts items by the query string parameters of a request
+ * (e.g. `rating[gte]=3&sort=-created-on`)
+ */
+const filterItems = (items: StoredItem[], query: { [param: string]: any }) => {
+  const conditions: Array<[string, string, string | string[]]> = [];
+  for (const param of Object.keys(query)) {
+    if (reservedParams.includes(param) || query[param] === undefined) continue;
+    const [, field, operator = "eq"] = /^(.+?)(?:\[(\w+)\])?$/.exec(param)!;
+    if (operator !== "eq" && !OPERATORS.includes(operator)) {
+      throw badRequest(`Invalid query operator: ${operator}`);
+    }
+    const value = query[param];
+    conditions.push([field, operator, Array.isArray(value) ? value.map(String) : String(value)]);
+  }
+  const filtered = items.filter((item) =>
+    conditions.every(([field, operator, value]) => matches(item[field], operator, value))
+  );
+
+  const sort = query.sort ? String(query.sort).split(",").filter(Boolean) : [];
+  if (!sort.length) return filtered;
+  return filtered.sort((a, b) => {
+    for (const key of sort) {
+      const descending = key.startsWith("-");
+      const field = descending ? key.slice(1) : key;
+      if (a[field] === b[field]) continue;
+      if (a[field] === undefined || a[field] === null) return 1;
+      if (b[field] === undefined || b[field] === null) return -1;
+      const order = a[field] < b[field] ? -1 : 1;
+      return descending ? -order : order;
+    }
+    return 0;
+  });
+};
+
+const select = (item: StoredItem, query: { [param: string]: any }) => {
+  if (!query.fields) return item;
+  const fields = ["_id", ...String(query.fields).split(",")];
+  const selected: { [field: string]: any } = {};
+  for (const field of fields) {
+    if (field in item) selected[field] = item[field];
+  }
+  return selected as StoredItem;
+};
@@ -0,0 +1,142 @@
+import { CollectionField } from "./interfaces/collectionInterfaces";
+import Item from "./interfaces/itemInterfaces";
+
+export interface PopulateOptions {
+  /** The slug of the `ItemRef` or `ItemRefMulti` field being populated */
+  path: string;
+  /**
+   * The fields each populated item is limited to. The fields of nested `populate` paths
+   * are always included
+   */
+  select?: string[];
+  /** Reference fields of the populated items that are populated as well */
+  populate?: PopulateSpec;
+}
+
+/**
+ * The reference fields being populated. Accepts a field slug, a space separated list
+ * of slugs, dotted paths for nested references (e.g. `"author.company"`), options
+ * objects, or an array of any of these
+ */
+export type PopulateSpec = string | PopulateOptions | Array<string | PopulateOptions>;
+
+export interface PopulateLoaders {
+  /** Returns the fields of a collection */
+  getFields: (collection_id: string) => Promise<CollectionField[]>;
+  /** Returns the items of a collection with the given IDs */
+  getItems: (
+    collection_id: string,
+    ids: string[],
+    select?: string[]
+  ) => Promise<Item<Date | string>[]>;
+}
+
+const referenceTypes = ["ItemRef", "ItemRefMulti"];
+
+const getId = (value: any) =>
+  value !== null && typeof value === "object" ? String(value._id) : String(value);
+
+/**
+ * Replaces populated items in a reference field value with their IDs
+ * @param value The value of an `ItemRef` or `ItemRefMulti` field
+ */
+export const depopulate = (value: any): any => {
+  if (Array.isArray(value)) return value.map(depopulate);
+  return value !== null && typeof value === "object" && "_id" in value ? getId(value) : value;
+};
+
+/**
+ * Normalizes a populate spec into a list of options, one per top-level path. Dotted
+ * paths are turned into nested options.
+ * @param spec The populate spec
+ */
+export const normalizePopulate = (spec: PopulateSpec): PopulateOptions[] => {
+  const entries = Array.isArray(spec) ? spec : [spec];
+  const byPath = new Map<string, PopulateOptions>();
+
+  const add = (options: PopulateOptions) => {
+    const [path, ...rest] = options.path.split(".");
+    const existing = byPath.get(path) || { path };
+    byPath.set(path, existing);
+    if (rest.length) {
+      const nested = rest.join(".");
+      existing.populate = [
+        ...(existing.populate ? normalizePopulate(existing.populate) : []),
+        { ...options, path: nested },
+      ];
+    } else {
+      if (options.select) existing.select = options.select;
+      if (options.populate) {
+        existing.populate = [
+          ...(existing.populate ? normalizePopulate(existing.populate) : []),
+          ...normalizePopulate(options.populate),
+        ];
+      }
+    }
+  };
+
+  for (const entry of entries) {
+    if (typeof entry === "string") {
+      entry
+        .split(/\s+/)
+        .filter(Boolean)
+        .forEach((path) => add({ path }));
+    } else {
+      add(entry);
+    }
+  }
+  return [...byPath.values()];
+};
+
+/**
+ * Replaces the IDs in the reference fields of `items` with the referenced items. The
+ * referenced items of each field are fetched in batches, so populating a page of items
+ * takes one request per field instead of one per item. Referenced items that are not
+ * found are replaced with null (`ItemRef`) or left out (`ItemRefMulti`).
+ * @param loaders Functions that load collection fields and items
+ * @param collection_id The ID of the collection the items belong to
+ * @param items The items being populated
+ * @param spec The reference fields being populated
+ */
+export default async function populateItems<T extends Item<Date | string>>(
+  loaders: PopulateLoaders,
+  collection_id: string,
+  items: T[],
+  spec: PopulateSpec
+): Promise<T[]> {
+  const options = normalizePopulate(spec);
+  if (!items.length || !options.length) return items;
+
+  const fields = await loaders.getFields(collection_id);
+  for (const { path, select, populate } of options) {
+    const field = fields.find((f) => f.slug === path);
+    const refCollection = field && field.validations && field.validations.collectionId;
+    if (!field || !referenceTypes.includes(field.type) || !refCollection) continue;
+    const multi = field.type === "ItemRefMulti";
+
+    const ids = new Set<string>();
+    for (const item of items) {
+      const value = item[path];
+      if (value === undefined || value === null) continue;
+      (multi && Array.isArray(value) ? value : [value]).forEach((ref) => ids.add(getId(ref)));
+    }
+    if (!ids.size) continue;
+
+    // Nested references must be selected to be populated
+    const nested = populate ? normalizePopulate(populate).map((options) => options.path) : [];
+    const selected = select && [...new Set([...select, ...nested])];
+    let referenced = await loaders.getItems(refCollection, [...ids], selected);
+    if (populate) referenced = await populateItems(loaders, refCollection, referenced, populate);
+    const byId = new Map(referenced.map((ref) => [String(ref._id), ref]));
+
+    for (const item of items) {
+      const value = item[path];
+      if (value === undefined || value === null) continue;
+      (item as any)[path] =
+        multi && Array.isArray(value)
+          ? value.map((ref) => byId.get(getId(ref))).filter((ref) => ref !== undefined)
+          : byId.get(getId(value)) || null;
+    }
+  }
+  return items;
+}
@@ -0,0 +1,389 @@
+import {
+  groupMarks,
+  isSafeUrl,
+  pushInline,
+  RichText,
+  RichTextBlock,
+  RichTextDocument,
+  RichTextInline,
+  RichTextListItem,
+  RichTextMark,
+} from "./nodes";
+
+interface HtmlElement {
+  tag: string;
+  attrs: { [name: string]: string };
+  children: HtmlNode[];
+}
+
+type HtmlNode = HtmlElement | string;
+
+/** Elements that are removed with their content */
+const DROPPED_TAGS = [
+  "script",
+  "style",
+  "iframe",
+  "object",
+  "embed",
+  "noscript",
+  "template",
+  "textarea",
+  "select",
+  "title",
+  "head",
+  "svg",
+  "math",
+];
+
+/** Elements whose content is not HTML, and is skipped up to the closing tag */
+const RAW_TEXT_TAGS = ["script", "style", "textarea", "title", "noscript", "template", "iframe"];
+
+const VOID_TAGS = [
+  "area",
+  "base",
+  "br",
+  "col",
+  "embed",
+  "hr",
+  "img",
+  "input",
+  "link",
+  "meta",
+  "source",
+  "track",
+  "wbr",
+];
+
+const MARK_TAGS: { [tag: string]: RichTextMark } = {
+  strong: "bold",
+  b: "bold",
+  em: "italic",
+  i: "italic",
+  u: "underline",
+  ins: "underline",
+  s: "strikethrough",
+  strike: "strikethrough",
+  del: "strikethrough",
+  code: "code",
+  kbd: "code",
+  samp: "code",
+};
+
+const MARK_ELEMENTS: { [mark in RichTextMark]: string } = {
+  bold: "strong",
+  italic: "em",
+  underline: "u",
+  strikethrough: "s",
+  code: "code",
+};
+
+/** Elements that only group blocks. Their content is kept, but not the element */
+const CONTAINER_TAGS = [
+  "html",
+  "body",
+  "div",
+  "section",
+  "article",
+  "header",
+  "footer",
+  "main",
+  "aside",
+  "nav",
+  "figure",
+  "figcaption",
+  "li",
+];
+
+const HEADING_REGEX = /^h([1-6])$/;
+
+const NAMED_ENTITIES: { [name: string]: string } = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: "\u00a0",
+};
+
+const TOKEN_REGEX = /<!--[\s\S]*?(?:-->|$)|<![^>]*>|<\?[^>]*>|<\/\s*([a-zA-Z][\w-]*)[^>]*>|<([a-zA-Z][\w-]*)((?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*)\s*\/?>/g;
+
+const ATTRIBUTE_REGEX = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+/**
+ * Decodes the character references of HTML text
+ * @param text The text being decoded
+ */
+const decodeEntities = (text: string) =>
+  text.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (reference, name: string) => {
+    if (name[0] === "#") {
+      const code =
+        name[1] === "x" || name[1] === "X"
+          ? parseInt(name.slice(2), 16)
+          : parseInt(name.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : reference;
+    }
+    const decoded = NAMED_ENTITIES[name.toLowerCase()];
+    return decoded === undefined ? reference : decoded;
+  });
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const parseAttributes = (source: string) => {
+  const attrs: { [name: string]: string } = {};
+  ATTRIBUTE_REGEX.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = ATTRIBUTE_REGEX.exec(source))) {
+    const value = match[2] !== undefined ? match[2] : match[3] !== undefined ? match[3] : match[4];
+    attrs[match[1].toLowerCase()] = decodeEntities(value || "");
+  }
+  return attrs;
+};
+
+/**
+ * Parses HTML into a tree of elements. Unclosed elements are closed by their parent,
+ * and closing tags without an open element are ignored
+ * @param html The HTML being parsed
+ */
+const parseHtmlTree = (html: string): HtmlNode[] => {
+  const root: HtmlElement = { tag: "#root", attrs: {}, children: [] };
+  const stack = [root];
+  const append = (node: HtmlNode) => stack[stack.length - 1].children.push(node);
+  let index = 0;
+
+  TOKEN_REGEX.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = TOKEN_REGEX.exec(html))) {
+    if (match.index > index) append(decodeEntities(html.slice(index, match.index)));
+    index = TOKEN_REGEX.lastIndex;
+    const [token, closing, opening, attributes] = match;
+    if (closing) {
+      const tag = closing.toLowerCase();
+      for (let i = stack.length - 1; i > 0; i--) {
+        if (stack[i].tag !== tag) continue;
+        stack.length = i;
+        break;
+      }
+    } else if (opening) {
+      const tag = opening.toLowerCase();
+      if (RAW_TEXT_TAGS.includes(tag)) {
+        const end = new RegExp(`</\\s*${tag}[^>]*>`, "ig");
+        end.lastIndex = index;
+        const closed = end.exec(html);
+        index = closed ? end.lastIndex : html.length;
+        TOKEN_REGEX.lastIndex = index;
+        continue;
+      }
+      const element: HtmlElement = { tag, attrs: parseAttributes(attributes || ""), children: [] };
+      append(element);
+      if (!VOID_TAGS.includes(tag) && !token.endsWith("/>")) stack.push(element);
+    }
+  }
+  if (index < html.length) append(decodeEntities(html.slice(index)));
+  return root.children;
+};
+
+const textContent = (nodes: HtmlNode[]): string =>
+  nodes
+    .map((node) =>
+      typeof node === "string" ? node : node.tag === "br" ? "\n" : textContent(node.children)
+    )
+    .join("");
+
+/** Removes the whitespace at the start and the end of a run of inline nodes */
+const trimInline = (nodes: RichTextInline[]) => {
+  const trimmed = nodes.map((node) => (node.type === "text" ? { ...node } : node));
+  for (let i = 0; i < trimmed.length; i++) {
+    const node = trimmed[i];
+    const previous = trimmed[i - 1];
+    if (node.type === "text" && (!previous || previous.type === "lineBreak")) {
+      node.text = node.text.replace(/^\s+/, "");
+    }
+  }
+  for (let i = trimmed.length - 1; i >= 0; i--) {
+    const node = trimmed[i];
+    const next = trimmed[i + 1];
+    if (node.type === "text" && (!next || next.type === "lineBreak")) {
+      node.text = node.text.replace(/\s+$/, "");
+    }
+  }
+  return trimmed.filter((node) => node.type !== "text" || node.text);
+};
+
+const toInline = (nodes: HtmlNode[], marks: RichTextMark[]): RichTextInline[] => {
+  const inline: RichTextInline[] = [];
+  for (const node of nodes) {
+    if (typeof node === "string") {
+      const text = node.replace(/\s+/g, " ");
+      pushInline(inline, marks.length ? { type: "text", text, marks } : { type: "text", text });
+      continue;
+    }
+    const { tag, attrs, children } = node;
+    if (DROPPED_TAGS.includes(tag)) continue;
+    const mark = MARK_TAGS[tag];
+    if (mark) {
+      pushInline(inline, ...toInline(children, marks.includes(mark) ? marks : [...marks, mark]));
+    } else if (tag === "a" && attrs.href && isSafeUrl(attrs.href)) {
+      const linked = trimInline(toInline(children, marks)).filter((n) => n.type !== "link");
+      if (linked.length) inline.push({ type: "link", href: attrs.href, children: linked });
+    } else if (tag === "img") {
+      if (attrs.src && isSafeUrl(attrs.src)) {
+        inline.push({ type: "image", src: attrs.src, alt: attrs.alt || "" });
+      }
+    } else if (tag === "br") {
+      inline.push({ type: "lineBreak" });
+    } else {
+      pushInline(inline, ...toInline(children, marks));
+    }
+  }
+  return inline;
+};
+
+const toListItems = (nodes: HtmlNode[]): RichTextListItem[] => {
+  const items: RichTextListItem[] = [];
+  for (const node of nodes) {
+    if (typeof node === "string" && !node.trim()) continue;
+    if (typeof node !== "string" && DROPPED_TAGS.includes(node.tag)) continue;
+    const content = typeof node !== "string" && node.tag === "li" ? node.children : [node];
+    items.push({ type: "listItem", children: toBlocks(content) });
+  }
+  return items;
+};
+
+const toBlocks = (nodes: HtmlNode[]): RichTextBlock[] => {
+  const blocks: RichTextBlock[] = [];
+  let inline: HtmlNode[] = [];
+  const flush = () => {
+    const children = trimInline(toInline(inline, []));
+    if (children.length) blocks.push({ type: "paragraph", children });
+    inline = [];
+  };
+
+  for (const node of nodes) {
+    if (typeof node === "string") {
+      inline.push(node);
+      continue;
+    }
+    const { tag, children } = node;
+    const heading = HEADING_REGEX.exec(tag);
+    if (DROPPED_TAGS.includes(tag)) continue;
+    if (tag === "p") {
+      flush();
+      inline = children;
+      flush();
+    } else if (heading) {
+      flush();
+      const level = Number(heading[1]) as 1 | 2 | 3 | 4 | 5 | 6;
+      blocks.push({ type: "heading", level, children: trimInline(toInline(children, [])) });
+    } else if (tag === "blockquote") {
+      flush();
+      blocks.push({ type: "blockquote", children: toBlocks(children) });
+    } else if (tag === "ul" || tag === "ol") {
+      flush();
+      blocks.push({ type: "list", ordered: tag === "ol", children: toListItems(children) });
+    } else if (tag === "pre") {
+      flush();
+      const code = children.find((child): child is HtmlElement => typeof child !== "string");
+      const language = code && /(?:^|\s)language-([\w-]+)/.exec(code.attrs.class || "");
+      const text = textContent(children).replace(/^\n/, "").replace(/\n$/, "");
+      blocks.push(
+        language ? { type: "codeBlock", text, language: language[1] } : { type: "codeBlock", text }
+      );
+    } else if (tag === "hr") {
+      flush();
+      blocks.push({ type: "horizontalRule" });
+    } else if (CONTAINER_TAGS.includes(tag)) {
+      flush();
+      blocks.push(...toBlocks(children));
+    } else {
+      inline.push(node);
+    }
+  }
+  flush();
+  return blocks;
+};
+
+/**
+ * Parses the HTML of a `RichText` field into a node tree. Elements without a node type
+ * are unwrapped, and scripts, styles, embedded content and unsafe URLs are removed
+ * @param html The value of the field
+ */
+export function parseRichText(html: RichText): RichTextDocument {
+  return { type: "document", children: toBlocks(parseHtmlTree(html || "")) };
+}
+
+const renderInline = (nodes: RichTextInline[]): string =>
+  groupMarks(nodes)
+    .map((node) => {
+      if ("mark" in node) {
+        const tag = MARK_ELEMENTS[node.mark];
+        return `<${tag}>${renderInline(node.children)}</${tag}>`;
+      }
+      switch (node.type) {
+        case "text":
+          return escapeHtml(node.text);
+        // Node trees built by hand are not parsed, so their URLs are checked here as well
+        case "link":
+          if (!isSafeUrl(node.href)) return renderInline(node.children);
+          return `<a href="${escapeHtml(node.href)}">${renderInline(node.children)}</a>`;
+        case "image":
+          if (!isSafeUrl(node.src)) return "";
+          return `<img src="${escapeHtml(node.src)}" alt="${escapeHtml(node.alt)}">`;
+        case "lineBreak":
+          return "<br>";
+      }
+    })
+    .join("");
+
+/** List items with a single paragraph are rendered without the paragraph element */
+const renderListItem = ({ children }: RichTextListItem) => {
+  const [first] = children;
+  if (children.length === 1 && first.type === "paragraph") {
+    return `<li>${renderInline(first.children)}</li>`;
+  }
+  return `<li>${renderBlocks(children)}</li>`;
+};
+
+const renderBlocks = (blocks: RichTextBlock[]): string =>
+  blocks
+    .map((block) => {
+      switch (block.type) {
+        case "paragraph":
+          return `<p>${renderInline(block.children)}</p>`;
+        case "heading":
+          return `<h${block.level}>${renderInline(block.children)}</h${block.level}>`;
+        case "blockquote":
+          return `<blockquote>${renderBlocks(block.children)}</blockquote>`;
+        case "list": {
+          const tag = block.ordered ? "ol" : "ul";
+          return `<${tag}>${block.children.map(renderListItem).join("")}</${tag}>`;
+        }
+        case "codeBlock": {
+          const language = block.language ? ` class="language-${escapeHtml(block.language)}"` : "";
+          return `<pre><code${language}>${escapeHtml(block.text)}</code></pre>`;
+        }
+        case "horizontalRule":
+          return "<hr>";
+      }
+    })
+    .join("\n");
+
+/**
+ * Renders a `RichText` field to HTML. A string value is parsed first, and links and
+ * images of a node tree with unsafe URLs are dropped, so the HTML returned is always
+ * sanitized
+ * @param value The node tree, or the value of the field
+ */
+export function richTextToHtml(value: RichTextDocument | RichText): string {
+  const document = typeof value === "string" ? parseRichText(value) : value;
+  return renderBlocks(document.children);
+}
+
+/**
+ * Converts HTML into the value of a `RichText` field, removing the elements and
+ * attributes a `RichText` field cannot hold
+ *
+ *      await cms.createItem(collection_id, { body: htmlToRichText(html) });
+ * @param html The HTML being converted
+ */
+export const htmlToRichText = (html: string): RichText => richTextToHtml(parseRichText(html));
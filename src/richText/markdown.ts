@@ -0,0 +1,434 @@
+import { parseRichText, richTextToHtml } from "./html";
+import {
+  groupMarks,
+  isSafeUrl,
+  pushInline,
+  RichText,
+  RichTextBlock,
+  RichTextDocument,
+  RichTextInline,
+  RichTextListItem,
+  RichTextMark,
+} from "./nodes";
+
+const FENCE_REGEX = /^ {0,3}(`{3,}|~{3,})\s*([\w+#.-]*)/;
+const HEADING_REGEX = /^ {0,3}(#{1,6})(?:\s+(.*?))?(?:\s+#+)?\s*$/;
+const RULE_REGEX = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const QUOTE_REGEX = /^ {0,3}>\s?/;
+const LIST_REGEX = /^( {0,3})([-*+]|\d{1,9}[.)])(\s+|$)/;
+const IMAGE_REGEX = /^!\[([^\]]*)\]/;
+const TITLE_REGEX = /^\s+(?:"[^"]*"|'[^']*')/;
+const ESCAPABLE_REGEX = /[!"#$%&'()*+,\-./:;<=>?@[\\\]^_`{|}~]/;
+
+/** The Markdown delimiters of each mark. Underline has no syntax, so an HTML tag is used */
+const MARK_DELIMITERS: { [mark in RichTextMark]?: [string, string] } = {
+  bold: ["**", "**"],
+  italic: ["_", "_"],
+  strikethrough: ["~~", "~~"],
+  underline: ["<u>", "</u>"],
+};
+
+const indentOf = (line: string) => /^ */.exec(line)![0].length;
+
+const isBlockStart = (line: string) =>
+  FENCE_REGEX.test(line) ||
+  HEADING_REGEX.test(line) ||
+  RULE_REGEX.test(line) ||
+  QUOTE_REGEX.test(line) ||
+  LIST_REGEX.test(line);
+
+const withMark = (marks: RichTextMark[], mark: RichTextMark) =>
+  marks.includes(mark) ? marks : [...marks, mark];
+
+const textNode = (text: string, marks: RichTextMark[]): RichTextInline =>
+  marks.length ? { type: "text", text, marks } : { type: "text", text };
+
+/**
+ * Returns the index of the delimiter closing the one at `start`, skipping escaped
+ * characters, code spans and, for single character delimiters, double delimiters
+ * @param text The text being searched
+ * @param start The index after the opening delimiter
+ * @param delimiter The closing delimiter
+ */
+const findClosing = (text: string, start: number, delimiter: string) => {
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === "\\") {
+      i++;
+    } else if (text[i] === "`") {
+      const run = /^`+/.exec(text.slice(i))![0];
+      const end = text.indexOf(run, i + run.length);
+      if (end !== -1) i = end + run.length - 1;
+    } else if (delimiter.length === 1 && text.startsWith(delimiter.repeat(2), i)) {
+      const end = text.indexOf(delimiter.repeat(2), i + 2);
+      if (end === -1) return -1;
+      i = end + 1;
+    } else if (text.startsWith(delimiter, i) && i > start && !/\s/.test(text[i - 1])) {
+      return i;
+    }
+  }
+  return -1;
+};
+
+/**
+ * Parses the destination of a link or an image, e.g. `(https://example.com "Title")`.
+ * Parentheses in the URL must be balanced, or the URL wrapped in `<>`. Returns the URL
+ * and the index after the closing parenthesis
+ * @param text The text being parsed
+ * @param start The index of the opening parenthesis
+ */
+const parseDestination = (text: string, start: number) => {
+  if (text[start] !== "(") return null;
+  let i = start + 1;
+  while (text[i] === " " || text[i] === "\n") i++;
+  let url = "";
+  if (text[i] === "<") {
+    const end = text.indexOf(">", i);
+    if (end === -1 || /[\n<]/.test(text.slice(i + 1, end))) return null;
+    url = text.slice(i + 1, end);
+    i = end + 1;
+  } else {
+    let depth = 0;
+    for (; i < text.length && !/\s/.test(text[i]); i++) {
+      if (text[i] === "\\" && ESCAPABLE_REGEX.test(text[i + 1] || "")) {
+        url += text[++i];
+        continue;
+      }
+      if (text[i] === "(") depth++;
+      if (text[i] === ")" && !depth--) break;
+      url += text[i];
+    }
+    if (depth > 0) return null;
+  }
+  const title = TITLE_REGEX.exec(text.slice(i));
+  if (title) i += title[0].length;
+  while (text[i] === " " || text[i] === "\n") i++;
+  return text[i] === ")" ? { url, end: i + 1 } : null;
+};
+
+/**
+ * Parses the inline Markdown of a paragraph or a heading
+ * @param text The text being parsed
+ * @param marks The marks of the enclosing delimiters
+ */
+const parseInline = (text: string, marks: RichTextMark[] = []): RichTextInline[] => {
+  const nodes: RichTextInline[] = [];
+  let buffer = "";
+  const flush = () => {
+    pushInline(nodes, textNode(buffer, marks));
+    buffer = "";
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    const rest = text.slice(i);
+
+    if (char === "\\" && text[i + 1] === "\n") {
+      flush();
+      nodes.push({ type: "lineBreak" });
+      i++;
+      continue;
+    }
+    if (char === "\\" && ESCAPABLE_REGEX.test(text[i + 1] || "")) {
+      buffer += text[++i];
+      continue;
+    }
+    if (char === "\n") {
+      const hardBreak = / {2,}$/.test(buffer);
+      buffer = buffer.replace(/ +$/, "");
+      if (hardBreak) {
+        flush();
+        nodes.push({ type: "lineBreak" });
+      } else {
+        buffer += " ";
+      }
+      continue;
+    }
+    if (char === "`") {
+      const run = /^`+/.exec(rest)![0];
+      const end = text.indexOf(run, i + run.length);
+      if (end === -1) {
+        buffer += run;
+        i += run.length - 1;
+        continue;
+      }
+      let code = text.slice(i + run.length, end).replace(/\n/g, " ");
+      if (/^ .*[^ ].* $/.test(code)) code = code.slice(1, -1);
+      flush();
+      pushInline(nodes, textNode(code, withMark(marks, "code")));
+      i = end + run.length - 1;
+      continue;
+    }
+    const image = char === "!" ? IMAGE_REGEX.exec(rest) : null;
+    const source = image && parseDestination(text, i + image[0].length);
+    if (image && source) {
+      flush();
+      if (isSafeUrl(source.url)) nodes.push({ type: "image", src: source.url, alt: image[1] });
+      i = source.end - 1;
+      continue;
+    }
+    if (char === "[") {
+      const close = findClosing(text, i + 1, "]");
+      const target = close !== -1 ? parseDestination(text, close + 1) : null;
+      if (target) {
+        flush();
+        const children = parseInline(text.slice(i + 1, close), marks);
+        if (isSafeUrl(target.url)) nodes.push({ type: "link", href: target.url, children });
+        else pushInline(nodes, ...children);
+        i = target.end - 1;
+        continue;
+      }
+    }
+    const delimiter = (["***", "___", "**", "__", "~~", "<u>", "*", "_"] as const).find((d) =>
+      rest.startsWith(d)
+    );
+    if (delimiter && !(delimiter[0] === "_" && /[a-z0-9]/i.test(text[i - 1] || ""))) {
+      const closing = delimiter === "<u>" ? "</u>" : delimiter;
+      const start = i + delimiter.length;
+      const end = /\s/.test(text[start] || " ") ? -1 : findClosing(text, start, closing);
+      if (end !== -1) {
+        const added: RichTextMark[] =
+          delimiter === "~~"
+            ? ["strikethrough"]
+            : delimiter === "<u>"
+            ? ["underline"]
+            : delimiter.length === 3
+            ? ["bold", "italic"]
+            : delimiter.length === 2
+            ? ["bold"]
+            : ["italic"];
+        flush();
+        pushInline(nodes, ...parseInline(text.slice(start, end), added.reduce(withMark, marks)));
+        i = end + closing.length - 1;
+        continue;
+      }
+    }
+    buffer += char;
+  }
+  flush();
+  return nodes;
+};
+
+/**
+ * Splits the lines of a list into the lines of each item, and returns the index of the
+ * line after the list
+ * @param lines The lines being parsed
+ * @param start The index of the first item
+ */
+const collectListItems = (lines: string[], start: number) => {
+  const ordered = /\d/.test(LIST_REGEX.exec(lines[start])![2]);
+  const items: string[][] = [];
+  let contentIndent = 0;
+  let i = start;
+  while (i < lines.length) {
+    const line = lines[i];
+    const marker = LIST_REGEX.exec(line);
+    if (marker && (!items.length || indentOf(line) < contentIndent)) {
+      if (/\d/.test(marker[2]) !== ordered) break;
+      const spacing = marker[3].length > 4 || !marker[3] ? 1 : marker[3].length;
+      contentIndent = marker[1].length + marker[2].length + spacing;
+      items.push([line.slice(marker[0].length)]);
+    } else if (!line.trim()) {
+      let next = i + 1;
+      while (next < lines.length && !lines[next].trim()) next++;
+      const continues =
+        next < lines.length &&
+        (indentOf(lines[next]) >= contentIndent || LIST_REGEX.test(lines[next]));
+      if (!continues) break;
+      items[items.length - 1].push("");
+    } else if (indentOf(line) >= contentIndent) {
+      items[items.length - 1].push(line.slice(contentIndent));
+    } else if (isBlockStart(line) || !items[items.length - 1].slice(-1)[0].trim()) {
+      break;
+    } else {
+      items[items.length - 1].push(line.trim());
+    }
+    i++;
+  }
+  return { ordered, items, end: i };
+};
+
+const parseBlocks = (lines: string[]): RichTextBlock[] => {
+  const blocks: RichTextBlock[] = [];
+  let paragraph: string[] = [];
+  const flush = () => {
+    const children = parseInline(paragraph.join("\n").trim());
+    if (children.length) blocks.push({ type: "paragraph", children });
+    paragraph = [];
+  };
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+    const fence = FENCE_REGEX.exec(line);
+    const heading = HEADING_REGEX.exec(line);
+    if (!line.trim()) {
+      flush();
+      i++;
+    } else if (fence) {
+      flush();
+      const closing = new RegExp(`^ {0,3}${fence[1][0]}{${fence[1].length},}\\s*$`);
+      const code: string[] = [];
+      for (i++; i < lines.length && !closing.test(lines[i]); i++) code.push(lines[i]);
+      i++;
+      const text = code.join("\n");
+      blocks.push(
+        fence[2] ? { type: "codeBlock", text, language: fence[2] } : { type: "codeBlock", text }
+      );
+    } else if (!paragraph.length && indentOf(line) >= 4) {
+      // Indented code blocks cannot interrupt a paragraph
+      const code: string[] = [];
+      for (; i < lines.length && (!lines[i].trim() || indentOf(lines[i]) >= 4); i++) {
+        code.push(lines[i].slice(4));
+      }
+      while (!code[code.length - 1].trim()) code.pop();
+      blocks.push({ type: "codeBlock", text: code.join("\n") });
+    } else if (heading) {
+      flush();
+      const level = heading[1].length as 1 | 2 | 3 | 4 | 5 | 6;
+      blocks.push({ type: "heading", level, children: parseInline(heading[2] || "") });
+      i++;
+    } else if (RULE_REGEX.test(line)) {
+      flush();
+      blocks.push({ type: "horizontalRule" });
+      i++;
+    } else if (QUOTE_REGEX.test(line)) {
+      flush();
+      const quoted: string[] = [];
+      for (; i < lines.length && QUOTE_REGEX.test(lines[i]); i++) {
+        quoted.push(lines[i].replace(QUOTE_REGEX, ""));
+      }
+      blocks.push({ type: "blockquote", children: parseBlocks(quoted) });
+    } else if (LIST_REGEX.test(line)) {
+      flush();
+      const { ordered, items, end } = collectListItems(lines, i);
+      const children = items.map(
+        (item): RichTextListItem => ({ type: "listItem", children: parseBlocks(item) })
+      );
+      blocks.push({ type: "list", ordered, children });
+      i = end;
+    } else {
+      paragraph.push(line.replace(/^\s+/, ""));
+      i++;
+    }
+  }
+  flush();
+  return blocks;
+};
+
+/**
+ * Parses Markdown into the node tree of a `RichText` field. Headings, paragraphs,
+ * block quotes, lists, fenced and indented code blocks, rules, emphasis, strikethrough, code spans,
+ * links and images are supported. HTML in the Markdown is kept as text
+ * @param markdown The Markdown being parsed
+ */
+export function parseMarkdown(markdown: string): RichTextDocument {
+  const lines = (markdown || "").replace(/\r\n?/g, "\n").replace(/\t/g, "    ").split("\n");
+  return { type: "document", children: parseBlocks(lines) };
+}
+
+const escapeMarkdown = (text: string) =>
+  text.replace(/([\\`*_[\]~])/g, "\\$1").replace(/<(?=\/?u>)/g, "\\<");
+
+const renderCode = (code: string) => {
+  const longest = Math.max(0, ...(code.match(/`+/g) || []).map((run) => run.length));
+  const fence = "`".repeat(longest + 1);
+  const padding = code.startsWith("`") || code.endsWith("`") ? " " : "";
+  return `${fence}${padding}${code}${padding}${fence}`;
+};
+
+const renderUrl = (url: string) => (/[\s()<>]/.test(url) ? `<${url.replace(/[<>]/g, "")}>` : url);
+
+const textOf = (nodes: RichTextInline[]): string =>
+  nodes
+    .map((node) =>
+      node.type === "text" ? node.text : node.type === "link" ? textOf(node.children) : ""
+    )
+    .join("");
+
+const renderInline = (nodes: RichTextInline[]): string =>
+  groupMarks(nodes)
+    .map((node) => {
+      if ("mark" in node) {
+        // Code spans cannot hold formatting, so only the text of the run is kept
+        const content =
+          node.mark === "code" ? renderCode(textOf(node.children)) : renderInline(node.children);
+        const delimiters = MARK_DELIMITERS[node.mark];
+        if (!delimiters) return content;
+        // Delimiters next to whitespace do not open or close emphasis
+        const [, leading, core, trailing] = /^(\s*)([\s\S]*?)(\s*)$/.exec(content)!;
+        return core ? `${leading}${delimiters[0]}${core}${delimiters[1]}${trailing}` : content;
+      }
+      switch (node.type) {
+        case "text":
+          return escapeMarkdown(node.text);
+        case "link":
+          if (!isSafeUrl(node.href)) return renderInline(node.children);
+          return `[${renderInline(node.children)}](${renderUrl(node.href)})`;
+        case "image":
+          if (!isSafeUrl(node.src)) return "";
+          return `![${escapeMarkdown(node.alt)}](${renderUrl(node.src)})`;
+        case "lineBreak":
+          return "\\\n";
+      }
+    })
+    .join("");
+
+/** Escapes the characters at the start of a paragraph that would start another block */
+const escapeBlockStart = (markdown: string) =>
+  markdown.replace(/^(\d+)([.)])(\s|$)/, "$1\\$2$3").replace(/^([#>+-])/, "\\$1");
+
+const indent = (markdown: string, first: string, rest: string) =>
+  markdown
+    .split("\n")
+    .map((line, i) => (i === 0 ? first : line ? rest : "") + line)
+    .join("\n");
+
+const renderBlocks = (blocks: RichTextBlock[]): string =>
+  blocks
+    .map((block) => {
+      switch (block.type) {
+        case "paragraph":
+          return escapeBlockStart(renderInline(block.children));
+        case "heading":
+          return `${"#".repeat(block.level)} ${renderInline(block.children)}`;
+        case "blockquote":
+          return renderBlocks(block.children)
+            .split("\n")
+            .map((line) => (line ? `> ${line}` : ">"))
+            .join("\n");
+        case "list":
+          return block.children
+            .map((item, i) => {
+              const marker = block.ordered ? `${i + 1}. ` : "- ";
+              return indent(renderBlocks(item.children), marker, " ".repeat(marker.length));
+            })
+            .join("\n");
+        case "codeBlock": {
+          const longest = Math.max(0, ...(block.text.match(/^`{3,}/gm) || []).map((f) => f.length));
+          const fence = "`".repeat(Math.max(3, longest + 1));
+          return `${fence}${block.language || ""}\n${block.text}\n${fence}`;
+        }
+        case "horizontalRule":
+          return "---";
+      }
+    })
+    .join("\n\n");
+
+/**
+ * Renders a `RichText` field to Markdown. Underlined text is wrapped in `<u>` tags,
+ * which Markdown has no syntax for
+ * @param value The node tree, or the value of the field
+ */
+export function richTextToMarkdown(value: RichTextDocument | RichText): string {
+  const document = typeof value === "string" ? parseRichText(value) : value;
+  return renderBlocks(document.children);
+}
+
+/**
+ * Converts Markdown into the value of a `RichText` field
+ *
+ *      await cms.patchItemById(collection_id, item_id, { body: markdownToRichText(markdown) });
+ * @param markdown The Markdown being converted
+ */
+export const markdownToRichText = (markdown: string): RichText =>
+  richTextToHtml(parseMarkdown(markdown));
@@ -0,0 +1,147 @@
+/** The value of a `RichText` field, as stored by the CMS: sanitized HTML */
+export type RichText = string;
+
+/** Formatting applied to a run of text */
+export type RichTextMark = "bold" | "italic" | "underline" | "strikethrough" | "code";
+
+export interface RichTextText {
+  type: "text";
+  text: string;
+  /** The formatting of the text, outermost first */
+  marks?: RichTextMark[];
+}
+
+export interface RichTextLink {
+  type: "link";
+  /** The URL of the link. Only `http:`, `https:`, `mailto:` and relative URLs are kept */
+  href: string;
+  children: RichTextInline[];
+}
+
+export interface RichTextImage {
+  type: "image";
+  src: string;
+  alt: string;
+}
+
+export interface RichTextLineBreak {
+  type: "lineBreak";
+}
+
+export type RichTextInline = RichTextText | RichTextLink | RichTextImage | RichTextLineBreak;
+
+export interface RichTextParagraph {
+  type: "paragraph";
+  children: RichTextInline[];
+}
+
+export interface RichTextHeading {
+  type: "heading";
+  level: 1 | 2 | 3 | 4 | 5 | 6;
+  children: RichTextInline[];
+}
+
+export interface RichTextBlockquote {
+  type: "blockquote";
+  children: RichTextBlock[];
+}
+
+export interface RichTextList {
+  type: "list";
+  ordered: boolean;
+  children: RichTextListItem[];
+}
+
+export interface RichTextListItem {
+  type: "listItem";
+  children: RichTextBlock[];
+}
+
+export interface RichTextCodeBlock {
+  type: "codeBlock";
+  text: string;
+  language?: string;
+}
+
+export interface RichTextHorizontalRule {
+  type: "horizontalRule";
+}
+
+export type RichTextBlock =
+  | RichTextParagraph
+  | RichTextHeading
+  | RichTextBlockquote
+  | RichTextList
+  | RichTextCodeBlock
+  | RichTextHorizontalRule;
+
+/** The node tree of a `RichText` field */
+export interface RichTextDocument {
+  type: "document";
+  children: RichTextBlock[];
+}
+
+export type RichTextNode = RichTextDocument | RichTextBlock | RichTextListItem | RichTextInline;
+
+/**
+ * Returns true if the URL of a link or an image is safe to render. Scripts
+ * (`javascript:`) and other schemes are not
+ * @param url The URL
+ */
+export const isSafeUrl = (url: string) => {
+  // Browsers ignore whitespace and control characters within a scheme
+  const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(url.replace(/[\u0000-\u0020\u007f-\u009f]/g, ""));
+  return !scheme || ["http", "https", "mailto"].includes(scheme[1].toLowerCase());
+};
+
+/**
+ * Appends inline nodes to `nodes`, merging adjacent text nodes with the same marks
+ * @param nodes The inline nodes being appended to
+ * @param added The inline nodes being appended
+ */
+export const pushInline = (nodes: RichTextInline[], ...added: RichTextInline[]) => {
+  for (const node of added) {
+    const last = nodes[nodes.length - 1];
+    if (
+      node.type === "text" &&
+      last &&
+      last.type === "text" &&
+      (last.marks || []).join() === (node.marks || []).join()
+    ) {
+      last.text += node.text;
+    } else if (node.type !== "text" || node.text) {
+      nodes.push(node);
+    }
+  }
+  return nodes;
+};
+
+/** A run of inline nodes that share their outermost mark */
+export interface RichTextMarkGroup {
+  mark: RichTextMark;
+  /** The nodes of the run, without the shared mark */
+  children: RichTextInline[];
+}
+
+/**
+ * Groups consecutive text nodes by their outermost mark, so nested formatting is
+ * rendered once around the whole run (e.g. `<strong>a <em>b</em></strong>`)
+ * @param nodes The inline nodes being grouped
+ */
+export const groupMarks = (nodes: RichTextInline[]) => {
+  const groups: Array<RichTextInline | RichTextMarkGroup> = [];
+  for (const node of nodes) {
+    if (node.type !== "text" || !node.marks || !node.marks.length) {
+      groups.push(node);
+      continue;
+    }
+    const [mark, ...marks] = node.marks;
+    const child: RichTextText = marks.length
+      ? { type: "text", text: node.text, marks }
+      : { type: "text", text: node.text };
+    const last = groups[groups.length - 1];
+    if (last && "mark" in last && last.mark === mark) last.children.push(child);
+    else groups.push({ mark, children: [child] });
+  }
+  return groups;
+};
@@ -0,0 +1,355 @@
+import CMSError from "../CMSError";
+import type { MyCMS } from "../index";
+import {
+  BasicCollectionInfo,
+  CollectionData,
+  CollectionDataFields,
+  CollectionField,
+} from "../interfaces/collectionInterfaces";
+
+export interface SchemaField extends CollectionDataFields {
+  /**
+   * The previous name of the field. When the collection has no field with the `name` of
+   * the definition, the field with this name is renamed, keeping its values. Without it,
+   * a renamed field is deleted and added again, losing its values
+   */
+  renamedFrom?: string;
+}
+
+export interface SchemaCollection extends Omit<CollectionData, "fields"> {
+  /** The fields of the collection */
+  fields: SchemaField[];
+  /**
+   * The previous slug of the collection. When no collection has the `slug` of the
+   * definition, a collection with this slug is renamed instead of a new one created
+   */
+  renamedFrom?: string;
+}
+
+export interface DatabaseSchema {
+  /** The collections of the database */
+  collections: SchemaCollection[];
+}
+
+export type SchemaChange =
+  | { type: "createCollection"; collection: SchemaCollection }
+  | {
+      type: "renameCollection";
+      collection_id: string;
+      from: { name: string; slug: string };
+      to: { name: string; slug?: string };
+    }
+  | { type: "addField"; collection_id: string; collection: string; field: CollectionDataFields }
+  | {
+      type: "updateField";
+      collection_id: string;
+      collection: string;
+      field_id: string;
+      field: string;
+      changes: Partial<CollectionField>;
+    }
+  | {
+      type: "deleteField";
+      collection_id: string;
+      collection: string;
+      field_id: string;
+      field: string;
+      /**
+       * The new type of the field, when it is deleted to be added again with another
+       * type. The server does not change the type of a field
+       */
+      retypedTo?: CollectionField["type"];
+    };
+
+/** A live field that is not in the schema */
+export interface UnmanagedField {
+  /** The unique collection ID */
+  collection_id: string;
+  /** The name of the collection */
+  collection: string;
+  /** The unique field ID */
+  field_id: string;
+  /** The name of the field */
+  field: string;
+}
+
+export interface SchemaPlan {
+  /** The ID of the database the plan was made for */
+  database_id: string;
+  /** The changes that make the database match the schema, in the order they are applied */
+  changes: SchemaChange[];
+  /**
+   * The live fields that are not in the schema and are left alone. Empty when the plan
+   * is made with `prune`, which deletes them instead
+   */
+  unmanagedFields: UnmanagedField[];
+}
+
+export interface PlanSchemaOptions {
+  /**
+   * Delete the live fields of the schema's collections that are not in the schema,
+   * losing their values. Without it, they are left alone and listed in
+   * `plan.unmanagedFields`
+   * @default false
+   */
+  prune?: boolean;
+}
+
+export interface ApplySchemaOptions extends PlanSchemaOptions {
+  /**
+   * Return the plan without changing the database
+   * @default false
+   */
+  dryRun?: boolean;
+}
+
+export interface ApplySchemaResult {
+  /** The plan that was applied */
+  plan: SchemaPlan;
+  /** The changes that were sent to the server. Empty for a dry run */
+  applied: SchemaChange[];
+  /** True if the database was not changed */
+  dryRun: boolean;
+}
+
+/**
+ * Returns a declarative database schema unchanged. Gives the schema its type when it is
+ * defined in its own module
+ * @param schema The database schema
+ */
+export const defineSchema = (schema: DatabaseSchema) => schema;
+
+/**
+ * Returns a human readable description of a schema change
+ * @param change The schema change
+ */
+export const describeChange = (change: SchemaChange) => {
+  switch (change.type) {
+    case "createCollection":
+      return `Create collection '${change.collection.name}'`;
+    case "renameCollection":
+      return `Rename collection '${change.from.name}' to '${change.to.name}'`;
+    case "addField":
+      return `Add field '${change.field.name}' to '${change.collection}'`;
+    case "updateField":
+      return `Update ${Object.keys(change.changes).join(", ")} of field '${change.field}' in '${
+        change.collection
+      }'`;
+    case "deleteField":
+      return change.retypedTo
+        ? `Delete field '${change.field}' from '${change.collection}' to add it again as ${change.retypedTo} (its values are lost)`
+        : `Delete field '${change.field}' from '${change.collection}' (its values are lost)`;
+  }
+};
+
+/** Returns the properties of a field definition that are sent to the server */
+const toFieldData = ({ renamedFrom, ...field }: SchemaField): CollectionDataFields => field;
+
+const normalize = (name: string) => name.trim().toLowerCase();
+
+/** Compares two values deeply. Object keys with undefined values count as missing */
+const isEqual = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (a instanceof RegExp || b instanceof RegExp) return String(a) === String(b);
+  if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) return false;
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return (
+      Array.isArray(a) &&
+      Array.isArray(b) &&
+      a.length === b.length &&
+      a.every((value, i) => isEqual(value, b[i]))
+    );
+  }
+  const objA = a as { [key: string]: unknown };
+  const objB = b as { [key: string]: unknown };
+  const keys = new Set([...Object.keys(objA), ...Object.keys(objB)]);
+  return [...keys].every((key) => isEqual(objA[key], objB[key]));
+};
+
+/** Returns true if a property of a definition is set and differs from the live field */
+const isChanged = (desired: unknown, live: unknown) =>
+  desired !== undefined && !isEqual(desired, live);
+
+/**
+ * Returns the changes that make a live collection's fields match the fields of its
+ * definition. Fields are matched by name, then by `renamedFrom`. A field whose type changes is deleted and
+ * added again, since the server cannot change the type of a field. Live fields missing
+ * from the definition are deleted with `prune`, and reported as unmanaged otherwise
+ * @param collection_id The unique collection ID
+ * @param collection The name of the collection
+ * @param desired The fields of the definition
+ * @param live The fields of the live collection
+ * @param prune Delete live fields missing from the definition
+ */
+const diffFields = (
+  collection_id: string,
+  collection: string,
+  desired: SchemaField[],
+  live: CollectionField[],
+  prune: boolean
+) => {
+  const changes: SchemaChange[] = [];
+  const unmanaged: UnmanagedField[] = [];
+  const liveByName = new Map(live.map((field) => [normalize(field.name), field]));
+
+  for (const { renamedFrom, ...field } of desired) {
+    const existing =
+      liveByName.get(normalize(field.name)) ||
+      (renamedFrom ? liveByName.get(normalize(renamedFrom)) : undefined);
+    if (!existing) {
+      changes.push({ type: "addField", collection_id, collection, field });
+      continue;
+    }
+    liveByName.delete(normalize(existing.name));
+    if (field.type !== existing.type) {
+      if (existing.editable === false) {
+        throw new CMSError(
+          `The type of field '${existing.name}' in '${collection}' cannot be changed from ${existing.type} to ${field.type}`
+        );
+      }
+      changes.push(
+        {
+          type: "deleteField",
+          collection_id,
+          collection,
+          field_id: String(existing._id),
+          field: existing.name,
+          retypedTo: field.type,
+        },
+        { type: "addField", collection_id, collection, field }
+      );
+      continue;
+    }
+    const updates: Partial<CollectionField> = {};
+    const { required = false, helpText, validations, primaryName, primarySlug } = field;
+    const primary = !!(primaryName || primarySlug);
+    if (isChanged(required, existing.required)) updates.required = required;
+    if (isChanged(helpText, existing.helpText)) updates.helpText = helpText;
+    if (isChanged(validations, existing.validations)) updates.validations = validations;
+    if (primary !== !!existing.primary) updates.primary = primary;
+    if (field.name !== existing.name) updates.name = field.name;
+    if (Object.keys(updates).length) {
+      changes.push({
+        type: "updateField",
+        collection_id,
+        collection,
+        field_id: String(existing._id),
+        field: existing.name,
+        changes: updates,
+      });
+    }
+  }
+
+  for (const field of liveByName.values()) {
+    if (field.editable === false) continue;
+    const target = { collection_id, collection, field_id: String(field._id), field: field.name };
+    if (prune) changes.push({ type: "deleteField", ...target });
+    else unmanaged.push(target);
+  }
+  return { changes, unmanaged };
+};
+
+/**
+ * Compares a declarative schema to the live collections of a database by `database_id`
+ * and returns the changes that make the database match the schema. Collections are
+ * matched by `slug` (or `renamedFrom`), then by name.
+ * @param cms The CMS instance
+ * @param database_id The unique database ID
+ * @param schema The declarative database schema
+ * @param options
+ */
+export async function planSchema<D extends Date | string>(
+  cms: MyCMS<D>,
+  database_id: string,
+  schema: DatabaseSchema,
+  { prune = false }: PlanSchemaOptions = {}
+): Promise<SchemaPlan> {
+  const live = await cms.collections(database_id).all();
+  const changes: SchemaChange[] = [];
+  const unmanagedFields: UnmanagedField[] = [];
+
+  const findLive = (slug?: string, name?: string): BasicCollectionInfo<D> | undefined =>
+    live.find((collection) =>
+      slug ? collection.slug === slug : !!name && normalize(collection.name) === normalize(name)
+    );
+
+  for (const definition of schema.collections) {
+    const { renamedFrom, fields } = definition;
+    let existing =
+      findLive(definition.slug) ||
+      (definition.slug ? undefined : findLive(undefined, definition.name));
+    if (!existing && renamedFrom) {
+      existing = findLive(renamedFrom);
+    }
+    if (!existing) {
+      changes.push({ type: "createCollection", collection: definition });
+      continue;
+    }
+
+    const collection_id = String(existing._id);
+    const renamed =
+      existing.name !== definition.name ||
+      (definition.slug !== undefined && existing.slug !== definition.slug);
+    if (renamed) {
+      changes.push({
+        type: "renameCollection",
+        collection_id,
+        from: { name: existing.name, slug: existing.slug },
+        to: { name: definition.name, slug: definition.slug },
+      });
+    }
+
+    const liveFields = (await cms.getCollectionFields(collection_id)) || [];
+    const diff = diffFields(collection_id, definition.name, fields, liveFields, prune);
+    changes.push(...diff.changes);
+    unmanagedFields.push(...diff.unmanaged);
+  }
+
+  return { database_id, changes, unmanagedFields };
+}
+
+/**
+ * Applies the changes of a schema plan to its database. With `dryRun`, the plan is
+ * returned without changing the database. Fields missing from the schema are only
+ * deleted if the plan was made with `prune`
+ * @param cms The CMS instance
+ * @param plan The plan returned by `planSchema()`
+ * @param options
+ */
+export async function applySchemaPlan<D extends Date | string>(
+  cms: MyCMS<D>,
+  plan: SchemaPlan,
+  { dryRun = false }: ApplySchemaOptions = {}
+): Promise<ApplySchemaResult> {
+  const applied: SchemaChange[] = [];
+  if (dryRun) return { plan, applied, dryRun };
+
+  for (const change of plan.changes) {
+    switch (change.type) {
+      case "createCollection": {
+        const { renamedFrom, fields, ...data } = change.collection;
+        await cms.createCollectionByDatabaseId(plan.database_id, {
+          ...data,
+          fields: fields.map(toFieldData),
+        });
+        break;
+      }
+      case "renameCollection": {
+        const { name, slug } = change.to;
+        await cms.updateCollectionById(change.collection_id, slug ? { name, slug } : { name });
+        break;
+      }
+      case "addField":
+        await cms.createCollectionField(change.collection_id, change.field);
+        break;
+      case "updateField":
+        await cms.updateCollectionField(change.collection_id, change.field_id, change.changes);
+        break;
+      case "deleteField":
+        await cms.deleteCollectionField(change.collection_id, change.field_id);
+        break;
+    }
+    applied.push(change);
+  }
+  return { plan, applied, dryRun };
+}
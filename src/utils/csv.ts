@@ -0,0 +1,71 @@
+import CMSError from "../CMSError";
+
+/**
+ * Parses CSV text (RFC 4180) into rows of cells. Cells may be quoted with `"`, and
+ * quoted cells may contain delimiters, line breaks and escaped quotes (`""`)
+ * @param text The CSV text
+ * @param delimiter The cell delimiter
+ */
+export const parseCsv = (text: string, delimiter = ","): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const endCell = () => {
+    row.push(cell);
+    cell = "";
+  };
+  const endRow = () => {
+    endCell();
+    rows.push(row);
+    row = [];
+  };
+
+  while (i < text.length) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i += 2;
+        continue;
+      }
+      if (char === '"') quoted = false;
+      else cell += char;
+      i++;
+      continue;
+    }
+    if (char === '"' && cell === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      endCell();
+    } else if (char === "\r" && text[i + 1] === "\n") {
+      endRow();
+      i++;
+    } else if (char === "\n" || char === "\r") {
+      endRow();
+    } else {
+      cell += char;
+    }
+    i++;
+  }
+
+  if (quoted) throw new CMSError("Invalid CSV: a quoted cell is not closed");
+  if (cell !== "" || row.length) endRow();
+  return rows;
+};
+
+const escapeCell = (value: string, delimiter: string) =>
+  value.includes(delimiter) || /["\r\n]/.test(value) || /^\s|\s$/.test(value)
+    ? `"${value.replace(/"/g, '""')}"`
+    : value;
+
+/**
+ * Serializes rows of cells to CSV text (RFC 4180)
+ * @param rows The rows of cells
+ * @param delimiter The cell delimiter
+ */
+export const stringifyCsv = (rows: string[][], delimiter = ",") =>
+  rows.map((row) => row.map((cell) => escapeCell(cell, delimiter)).join(delimiter)).join("\r\n") +
+  "\r\n";
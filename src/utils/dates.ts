@@ -0,0 +1,96 @@
+/** The timestamps of each kind of resource, by the key of the resource in a response body */
+const resourceDates: { [key: string]: string[] } = {
+  database: ["createdAt"],
+  databases: ["createdAt"],
+  invitation: ["createdAt"],
+  invitations: ["createdAt"],
+  collection: ["createdAt", "lastUpdated"],
+  collections: ["createdAt", "lastUpdated"],
+  item: ["created-on", "updated-on"],
+  items: ["created-on", "updated-on"],
+  asset: ["createdAt"],
+  assets: ["createdAt"],
+};
+
+const isObject = (value: any): value is { [key: string]: any } =>
+  value !== null && typeof value === "object" && Object.getPrototypeOf(value) === Object.prototype;
+
+/**
+ * Parses an ISO string or a timestamp into a `Date`. Values that are not a valid date
+ * are returned unchanged
+ * @param value The value being parsed
+ */
+export const toDate = (value: any) => {
+  if (typeof value !== "string" && typeof value !== "number") return value;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : date;
+};
+
+/**
+ * Returns a copy of a value of a response body with the timestamps of the resources in
+ * it parsed into dates. Resources are found by their key (e.g. `items`), and items
+ * populated into reference fields by their `_cid`
+ * @param value The value being hydrated
+ * @param key The key of the value in its parent object
+ * @param collection_id The collection of the items under the value, if the path names one
+ * @param getDateFields Returns the slugs of the `Date` fields of a collection by `collection_id`
+ */
+async function hydrateValue(
+  value: any,
+  key: string,
+  collection_id: string | undefined,
+  getDateFields: (collection_id: string) => Promise<string[]>
+): Promise<any> {
+  if (Array.isArray(value)) {
+    return Promise.all(
+      value.map((element) => hydrateValue(element, key, collection_id, getDateFields))
+    );
+  }
+  if (!isObject(value)) return value;
+
+  const isItem = value._cid !== undefined || key === "item" || key === "items";
+  const cid = value._cid ? String(value._cid) : collection_id;
+  const dateKeys = [
+    ...(resourceDates[key] || (isItem ? resourceDates.item : [])),
+    ...(isItem && cid ? await getDateFields(cid) : []),
+  ];
+  // The collection of the path only holds for the resources of the response, not for
+  // the values nested in them
+  const childCollection = resourceDates[key] || isItem ? undefined : collection_id;
+
+  const hydrated: { [key: string]: any } = {};
+  for (const child of Object.keys(value)) {
+    hydrated[child] = dateKeys.includes(child)
+      ? toDate(value[child])
+      : await hydrateValue(value[child], child, childCollection, getDateFields);
+  }
+  return hydrated;
+}
+
+/**
+ * Returns a copy of a response body with the timestamps of its databases, invitations,
+ * collections, items and assets parsed into dates, wherever they are nested. The `Date`
+ * fields of items, including items populated into reference fields, are parsed as well
+ * @param body The body of the response
+ * @param collection_id The collection of the items in the response, if the path names one
+ * @param getDateFields Returns the slugs of the `Date` fields of a collection by `collection_id`
+ */
+export const hydrateDates = (
+  body: any,
+  collection_id: string | undefined,
+  getDateFields: (collection_id: string) => Promise<string[]>
+) => hydrateValue(body, "", collection_id, getDateFields);
+
+/**
+ * Returns a copy of the data of a request with its dates serialized as ISO strings,
+ * wherever they are nested
+ * @param data The data of the request
+ */
+export const serializeDates = (data: any): any => {
+  if (data instanceof Date) return data.toISOString();
+  if (Array.isArray(data)) return data.map(serializeDates);
+  if (!isObject(data)) return data;
+  const serialized: { [key: string]: any } = {};
+  for (const key of Object.keys(data)) serialized[key] = serializeDates(data[key]);
+  return serialized;
+};
@@ -0,0 +1,164 @@
+import { randomBytes } from "crypto";
+import { createReadStream, promises as fs } from "fs";
+import { basename, extname } from "path";
+import { Readable } from "stream";
+import { AssetSource } from "../interfaces/assetInterfaces";
+
+/** The number of bytes of a buffer sent at a time, so progress is reported while uploading */
+const CHUNK_SIZE = 64 * 1024;
+
+const CRLF = "\r\n";
+
+const mimeTypes: { [extension: string]: string } = {
+  ".avif": "image/avif",
+  ".bmp": "image/bmp",
+  ".gif": "image/gif",
+  ".ico": "image/x-icon",
+  ".jpeg": "image/jpeg",
+  ".jpg": "image/jpeg",
+  ".pdf": "application/pdf",
+  ".png": "image/png",
+  ".svg": "image/svg+xml",
+  ".tif": "image/tiff",
+  ".tiff": "image/tiff",
+  ".webp": "image/webp",
+};
+
+export interface MultipartFile {
+  /** The name of the form field the file is sent as */
+  field: string;
+  fileName: string;
+  mimeType: string;
+  source: AssetSource;
+  /** The size of the file in bytes, when it is known */
+  size?: number;
+}
+
+export interface MultipartBody {
+  body: Readable;
+  /** The `Content-Type` header of the body, with its boundary */
+  contentType: string;
+  /** The size of the body in bytes, when the size of the file is known */
+  contentLength?: number;
+}
+
+export interface ParsedPart {
+  name: string;
+  fileName?: string;
+  mimeType?: string;
+  content: Buffer;
+}
+
+/**
+ * Returns the MIME type of a file from its extension
+ * @param fileName The name of the file
+ */
+export const getMimeType = (fileName: string) =>
+  mimeTypes[extname(fileName).toLowerCase()] || "application/octet-stream";
+
+/**
+ * Returns the name of the file an upload source reads, if it has one
+ * @param source The buffer, stream or file path
+ */
+export const getSourceName = (source: AssetSource): string | undefined => {
+  if (typeof source === "string") return basename(source);
+  // Streams created with `fs.createReadStream` keep their path
+  const path = Buffer.isBuffer(source) ? undefined : (source as { path?: unknown }).path;
+  return typeof path === "string" ? basename(path) : undefined;
+};
+
+/**
+ * Returns the size of an upload source in bytes. The size of a stream is only known
+ * when it reads a file
+ * @param source The buffer, stream or file path
+ */
+export const getSourceSize = async (source: AssetSource): Promise<number | undefined> => {
+  if (Buffer.isBuffer(source)) return source.length;
+  const path = typeof source === "string" ? source : (source as { path?: unknown }).path;
+  return typeof path === "string" ? (await fs.stat(path)).size : undefined;
+};
+
+async function* readChunks(source: AssetSource): AsyncGenerator<Buffer> {
+  if (Buffer.isBuffer(source)) {
+    for (let start = 0; start < source.length; start += CHUNK_SIZE) {
+      yield source.slice(start, start + CHUNK_SIZE);
+    }
+    return;
+  }
+  const stream = typeof source === "string" ? createReadStream(source) : source;
+  for await (const chunk of stream) yield Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+}
+
+/** Quotes a header parameter, dropping the characters that would end the header */
+const quote = (value: string) => `"${value.replace(/[\r\n]/g, "").replace(/"/g, "%22")}"`;
+
+/**
+ * Builds a `multipart/form-data` body that streams a file. The file is only read while
+ * the body is sent
+ * @param file The file and the form field it is sent as
+ * @param onChunk Called with the size of every chunk of the file before it is sent. An
+ * error thrown by it fails the body
+ */
+export const createMultipartBody = (
+  { field, fileName, mimeType, source, size }: MultipartFile,
+  onChunk: (bytes: number) => void = () => undefined
+): MultipartBody => {
+  const boundary = `----cms-database-sdk-${randomBytes(12).toString("hex")}`;
+  const head = Buffer.from(
+    `--${boundary}${CRLF}` +
+      `Content-Disposition: form-data; name=${quote(field)}; filename=${quote(fileName)}${CRLF}` +
+      `Content-Type: ${mimeType}${CRLF}${CRLF}`
+  );
+  const tail = Buffer.from(`${CRLF}--${boundary}--${CRLF}`);
+
+  async function* parts() {
+    yield head;
+    for await (const chunk of readChunks(source)) {
+      onChunk(chunk.length);
+      yield chunk;
+    }
+    yield tail;
+  }
+
+  return {
+    body: Readable.from(parts(), { objectMode: false }),
+    contentType: `multipart/form-data; boundary=${boundary}`,
+    contentLength: size === undefined ? undefined : head.length + size + tail.length,
+  };
+};
+
+/**
+ * Parses a `multipart/form-data` body into its parts
+ * @param body The body of the request
+ * @param contentType The `Content-Type` header of the request, with its boundary
+ */
+export const parseMultipart = (body: Buffer, contentType: string): ParsedPart[] => {
+  const match = /boundary=(?:"([^"]+)"|([^;]+))/i.exec(contentType);
+  if (!match) return [];
+  const delimiter = Buffer.from(`--${match[1] || match[2]}`);
+  const parts: ParsedPart[] = [];
+  let start = body.indexOf(delimiter);
+  while (start !== -1) {
+    const next = body.indexOf(delimiter, start + delimiter.length);
+    if (next === -1) break;
+    // Each part is wrapped in the line breaks around the delimiters
+    const part = body.slice(start + delimiter.length + CRLF.length, next - CRLF.length);
+    const separator = part.indexOf(`${CRLF}${CRLF}`);
+    if (separator !== -1) {
+      const headers = part.slice(0, separator).toString();
+      const param = (name: string) => {
+        const value = new RegExp(`;\\s*${name}="([^"]*)"`, "i").exec(headers);
+        return value ? value[1] : undefined;
+      };
+      const type = /^content-type:\s*(.+)$/im.exec(headers);
+      parts.push({
+        name: param("name") || "",
+        fileName: param("filename"),
+        mimeType: type ? type[1].trim() : undefined,
+        content: part.slice(separator + 2 * CRLF.length),
+      });
+    }
+    start = next;
+  }
+  return parts;
+};
@@ -0,0 +1,28 @@
+/** Encodes a parameter like axios does, keeping brackets, colons and commas readable */
+const encode = (value: string) =>
+  encodeURIComponent(value)
+    .replace(/%3A/gi, ":")
+    .replace(/%24/g, "$")
+    .replace(/%2C/gi, ",")
+    .replace(/%5B/gi, "[")
+    .replace(/%5D/gi, "]");
+
+/**
+ * Serializes query string parameters, repeating a parameter for each value of an array
+ * (e.g. `{ "tags[in]": ["a", "b"] }` becomes `tags[in]=a&tags[in]=b`)
+ * @param params The query string parameters
+ */
+export const serializeParams = (params: { [param: string]: any }) =>
+  Object.keys(params)
+    .filter((param) => params[param] !== undefined && params[param] !== null)
+    .map((param) => {
+      const values: any[] = Array.isArray(params[param]) ? params[param] : [params[param]];
+      return values
+        .map((value) => {
+          const serialized = value instanceof Date ? value.toISOString() : String(value);
+          return `${encode(param)}=${encode(serialized)}`;
+        })
+        .join("&");
+    })
+    .filter(Boolean)
+    .join("&");
@@ -0,0 +1,83 @@
+import axios, { CancelToken } from "axios";
+import { AsyncLocalStorage } from "async_hooks";
+import CMSError from "../CMSError";
+
+export interface RequestOptions {
+  /**
+   * Aborts the requests of the call when the signal is aborted. The call rejects with
+   * an `AbortError`
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Error-first callback of a client method. It receives `(null, result)` when the call
+ * succeeds, including null results of resources that are not found, and
+ * `(error, null)` when the call fails
+ */
+export type Callback<T> = (err: CMSError | null, data: T | null) => void;
+
+/** Node's `AbortSignal` implements `EventTarget`, which the bundled typings leave out */
+type ListenableSignal = AbortSignal & {
+  addEventListener(type: "abort", listener: () => void, options?: { once?: boolean }): void;
+  removeEventListener(type: "abort", listener: () => void): void;
+};
+
+/** Holds the signal of the client call the current requests are sent for */
+export const requestScope = new AsyncLocalStorage<RequestOptions>();
+
+/**
+ * Separates the options and the callback of a client method, where the callback may be
+ * passed in place of the options
+ * @param optionsOrCallback The options or the callback
+ * @param callback The callback, when options are passed
+ */
+export const splitArgs = <O extends RequestOptions, T>(
+  optionsOrCallback?: O | Callback<T>,
+  callback?: Callback<T>
+): { options: O; callback?: Callback<T> } =>
+  typeof optionsOrCallback === "function"
+    ? { options: {} as O, callback: optionsOrCallback }
+    : { options: optionsOrCallback || ({} as O), callback };
+
+/**
+ * Reports the outcome of a call to its callback, if one was passed. The callback is
+ * called on its own tick, so an error it throws is not caught by the promise and it is
+ * never called twice. The returned promise can be ignored by callback users: its
+ * rejection is handled
+ * @param promise The promise of the call
+ * @param callback The error-first callback
+ */
+export const withCallback = <T>(promise: Promise<T>, callback?: Callback<T>) => {
+  if (typeof callback !== "function") return promise;
+  promise.then(
+    (data) => process.nextTick(callback, null, data),
+    (err) => process.nextTick(callback, err, null)
+  );
+  return promise;
+};
+
+/**
+ * Calls `listener` when `signal` is aborted, or right away if it already is. Returns a
+ * function that removes the listener
+ * @param signal The abort signal of the call
+ * @param listener Called once when the signal is aborted
+ */
+export const onAbort = (signal: AbortSignal, listener: () => void) => {
+  if (signal.aborted) {
+    listener();
+    return () => undefined;
+  }
+  (signal as ListenableSignal).addEventListener("abort", listener, { once: true });
+  return () => (signal as ListenableSignal).removeEventListener("abort", listener);
+};
+
+/**
+ * Returns an axios cancel token that is cancelled when `signal` is aborted
+ * @param signal The abort signal of the call
+ */
+export const toCancelToken = (signal: AbortSignal): CancelToken => {
+  const source = axios.CancelToken.source();
+  onAbort(signal, () => source.cancel("The request was aborted"));
+  return source.token;
+};
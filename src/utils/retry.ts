@@ -0,0 +1,128 @@
+import { Method } from "axios";
+import CMSError, { AbortError, NetworkError, RateLimitError } from "../CMSError";
+import { onAbort, requestScope } from "./requestOptions";
+
+export interface RetryOptions {
+  /**
+   * The maximum number of attempts of a request, including the first one. Set to 1 to
+   * disable retries
+   * @default 3
+   */
+  maxAttempts?: number;
+  /**
+   * The number of milliseconds to wait before the first retry. The delay doubles with
+   * every retry
+   * @default 300
+   */
+  baseDelay?: number;
+  /**
+   * The maximum number of milliseconds to wait between two attempts. A rate limited
+   * request whose `Retry-After` is longer fails without being retried
+   * @default 10000
+   */
+  maxDelay?: number;
+  /**
+   * Randomize each delay between 0 and the computed backoff, so many clients don't
+   * retry at the same time
+   * @default true
+   */
+  jitter?: boolean;
+  /**
+   * The HTTP methods that are retried. Only idempotent methods are retried by default
+   * @default ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"]
+   */
+  methods?: Method[];
+  /** Called before every retry */
+  onRetry?: (info: RetryInfo) => void;
+}
+
+export interface RetryInfo {
+  /** The number of the attempt that failed, starting at 1 */
+  attempt: number;
+  /** The number of milliseconds before the next attempt */
+  delay: number;
+  /** The error of the failed attempt */
+  error: CMSError;
+  /** The HTTP method of the request */
+  method: string;
+  /** The path of the request, relative to the API endpoint */
+  path: string;
+}
+
+const defaultRetryOptions: Required<Omit<RetryOptions, "onRetry">> = {
+  maxAttempts: 3,
+  baseDelay: 300,
+  maxDelay: 10000,
+  jitter: true,
+  methods: ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"],
+};
+
+/**
+ * Returns true if a request that failed with `err` may succeed when it is sent again.
+ * Network failures, rate limits and server errors are retryable.
+ * @param err The error of the failed request
+ */
+const isRetryableError = (err: unknown): err is CMSError =>
+  err instanceof NetworkError ||
+  err instanceof RateLimitError ||
+  (err instanceof CMSError && err.statusCode !== undefined && err.statusCode >= 500);
+
+/** Waits `ms` milliseconds, or until `signal` is aborted */
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const timer = setTimeout(() => {
+      removeListener();
+      resolve();
+    }, ms);
+    const removeListener = signal
+      ? onAbort(signal, () => {
+          clearTimeout(timer);
+          resolve();
+        })
+      : () => undefined;
+  });
+
+/**
+ * Sends a request, and sends it again with exponential backoff when it fails with a
+ * retryable error. The wait between two attempts ends with an `AbortError` when the
+ * signal of the call is aborted
+ * @param request Function that sends the request
+ * @param options The retry policy
+ * @param method The HTTP method of the request
+ * @param path The path of the request, relative to the API endpoint
+ */
+export default async function withRetry<T>(
+  request: () => Promise<T>,
+  options: RetryOptions,
+  method: string,
+  path: string
+): Promise<T> {
+  const { maxAttempts, baseDelay, maxDelay, jitter, methods } = {
+    ...defaultRetryOptions,
+    ...options,
+  };
+  const retryMethod = methods.some((m) => m.toUpperCase() === method.toUpperCase());
+  const { signal } = requestScope.getStore() || {};
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await request();
+    } catch (err) {
+      if (attempt >= maxAttempts || !retryMethod || !isRetryableError(err)) throw err;
+
+      const backoff = Math.min(maxDelay, baseDelay * 2 ** (attempt - 1));
+      let delay = jitter ? Math.round(Math.random() * backoff) : backoff;
+      if (err instanceof RateLimitError && err.retryAfter !== undefined) {
+        // Retrying before the server allows it would only be rate limited again
+        if (err.retryAfter * 1000 > maxDelay) throw err;
+        delay = Math.max(delay, err.retryAfter * 1000);
+      }
+
+      if (options.onRetry) options.onRetry({ attempt, delay, error: err, method, path });
+      await sleep(delay, signal);
+      if (signal && signal.aborted) {
+        throw new AbortError("The request was aborted", { method, path });
+      }
+    }
+  }
+}
@@ -0,0 +1,61 @@
+import CMSError from "../CMSError";
+import {
+  BulkFailed,
+  BulkItemResult,
+  BulkOptions,
+  BulkResult,
+  BulkSkipped,
+  BulkSucceeded,
+} from "../interfaces/bulkInterfaces";
+
+/**
+ * Runs `task` for every entry with at most `concurrency` tasks running at the same
+ * time, and reports the outcome of each entry. A task resolves to the result of the
+ * entry, or to null when there was nothing to apply it to (e.g. the item was not found)
+ * @param entries The entries of the bulk operation
+ * @param getId Returns the ID of the item an entry refers to, if known
+ * @param task Sends the request for an entry
+ * @param options The concurrency and failure handling of the operation
+ */
+export default async function runBulk<Entry, T>(
+  entries: Entry[],
+  getId: (entry: Entry) => string | undefined,
+  task: (entry: Entry) => Promise<{ id: string; result: T } | null>,
+  { concurrency = 5, stopOnError = false }: BulkOptions = {}
+): Promise<BulkResult<T>> {
+  const results: BulkItemResult<T>[] = new Array(entries.length);
+  let next = 0;
+  let stopped = false;
+
+  const worker = async () => {
+    while (next < entries.length) {
+      const index = next++;
+      const entry = entries[index];
+      const id = getId(entry);
+      if (stopped) {
+        results[index] = { status: "skipped", index, id, reason: "Stopped after a failure" };
+        continue;
+      }
+      try {
+        const outcome = await task(entry);
+        results[index] = outcome
+          ? { status: "succeeded", index, id: outcome.id, result: outcome.result }
+          : { status: "skipped", index, id, reason: "Item not found" };
+      } catch (err) {
+        const error = err instanceof CMSError ? err : new CMSError(String(err));
+        results[index] = { status: "failed", index, id, error };
+        if (stopOnError) stopped = true;
+      }
+    }
+  };
+
+  const workers = Math.max(1, Math.min(concurrency, entries.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+
+  return {
+    results,
+    succeeded: results.filter((r): r is BulkSucceeded<T> => r.status === "succeeded"),
+    failed: results.filter((r): r is BulkFailed => r.status === "failed"),
+    skipped: results.filter((r): r is BulkSkipped => r.status === "skipped"),
+  };
+}
@@ -0,0 +1,276 @@
+import { CollectionField } from "../interfaces/collectionInterfaces";
+
+export interface SlugOptions {
+  /**
+   * The text placed between the words of a slug
+   * @default "-"
+   */
+  separator?: string;
+  /**
+   * The maximum length of a slug, including the suffix added to make it unique. Slugs
+   * are cut between words when possible
+   * @default 100
+   */
+  maxLength?: number;
+  /**
+   * Lower case the slug
+   * @default true
+   */
+  lowercase?: boolean;
+}
+
+/** The number of suffixed slugs checked with each request for existing slugs */
+const CANDIDATE_BATCH_SIZE = 10;
+
+/**
+ * Latin letters that don't decompose into a base letter and accents, and the Cyrillic
+ * and Greek alphabets. Accented letters are handled by Unicode normalization
+ */
+const transliterations: { [char: string]: string } = {
+  "&": " and ",
+  ß: "ss",
+  æ: "ae",
+  œ: "oe",
+  ø: "o",
+  đ: "d",
+  ð: "d",
+  þ: "th",
+  ł: "l",
+  ı: "i",
+  ħ: "h",
+  ŧ: "t",
+  ŋ: "n",
+  а: "a",
+  б: "b",
+  в: "v",
+  г: "g",
+  ґ: "g",
+  д: "d",
+  е: "e",
+  є: "ye",
+  ё: "yo",
+  ж: "zh",
+  з: "z",
+  и: "i",
+  і: "i",
+  ї: "yi",
+  й: "y",
+  к: "k",
+  л: "l",
+  м: "m",
+  н: "n",
+  о: "o",
+  п: "p",
+  р: "r",
+  с: "s",
+  т: "t",
+  у: "u",
+  ф: "f",
+  х: "kh",
+  ц: "ts",
+  ч: "ch",
+  ш: "sh",
+  щ: "shch",
+  ъ: "",
+  ы: "y",
+  ь: "",
+  э: "e",
+  ю: "yu",
+  я: "ya",
+  α: "a",
+  β: "v",
+  γ: "g",
+  δ: "d",
+  ε: "e",
+  ζ: "z",
+  η: "i",
+  θ: "th",
+  ι: "i",
+  κ: "k",
+  λ: "l",
+  μ: "m",
+  ν: "n",
+  ξ: "x",
+  ο: "o",
+  π: "p",
+  ρ: "r",
+  σ: "s",
+  ς: "s",
+  τ: "t",
+  υ: "y",
+  φ: "f",
+  χ: "ch",
+  ψ: "ps",
+  ω: "o",
+};
+
+const transliterate = (char: string) => {
+  const lower = char.toLowerCase();
+  const latin = transliterations[lower];
+  if (latin === undefined) return char;
+  return char === lower ? latin : latin.charAt(0).toUpperCase() + latin.slice(1);
+};
+
+/** Joins as many words as fit in `maxLength`, cutting the first word if it is too long */
+const joinWords = (words: string[], separator: string, maxLength: number) => {
+  let slug = "";
+  for (const word of words) {
+    const next = slug ? `${slug}${separator}${word}` : word;
+    if (next.length > maxLength) return slug || word.slice(0, maxLength);
+    slug = next;
+  }
+  return slug;
+};
+
+/**
+ * Converts text to a URL-safe slug of ASCII letters, digits and separators. Accented
+ * letters lose their accents, and Cyrillic and Greek letters are transliterated
+ *
+ *      slugify("Crème Brûlée & Café") // "creme-brulee-and-cafe"
+ * @param text The text being converted, e.g. the name of an item
+ * @param options
+ */
+export const slugify = (
+  text: string,
+  { separator = "-", maxLength = 100, lowercase = true }: SlugOptions = {}
+) => {
+  const ascii = Array.from(
+    String(text)
+      .normalize("NFKD")
+      .replace(/[\u0300-\u036f]/g, "")
+  )
+    .map(transliterate)
+    .join("")
+    // Apostrophes join the parts of a word (e.g. "don't" -> "dont")
+    .replace(/['\u2019]/g, "");
+  const words = (lowercase ? ascii.toLowerCase() : ascii).split(/[^A-Za-z0-9]+/).filter(Boolean);
+  return joinWords(words, separator, maxLength);
+};
+
+/**
+ * Returns `slug` with the numeric suffix of the `n`th candidate (e.g. `slug-2`), cut so
+ * it fits in `maxLength`
+ */
+const withSuffix = (slug: string, n: number, { separator = "-", maxLength = 100 }: SlugOptions) => {
+  if (n === 1) return slug;
+  const suffix = `${separator}${n}`;
+  let base = slug.slice(0, Math.max(0, maxLength - suffix.length));
+  while (separator && base.endsWith(separator)) base = base.slice(0, -separator.length);
+  return `${base}${suffix}`;
+};
+
+/**
+ * Returns `slug`, or the first suffixed slug (`slug-2`, `slug-3`...) that is not taken
+ * @param slug The slug derived from a name
+ * @param options The separator and maximum length of the slug
+ * @param findTaken Returns the candidates that are already taken
+ */
+export async function findUniqueSlug(
+  slug: string,
+  options: SlugOptions,
+  findTaken: (candidates: string[]) => Promise<string[]>
+) {
+  for (let start = 1; ; start += CANDIDATE_BATCH_SIZE) {
+    const candidates: string[] = [];
+    for (let n = start; n < start + CANDIDATE_BATCH_SIZE; n++) {
+      candidates.push(withSuffix(slug, n, options));
+    }
+    const taken = new Set(await findTaken(candidates));
+    const free = candidates.find((candidate) => !taken.has(candidate));
+    if (free) return free;
+  }
+}
+
+/**
+ * Returns the primary name field of a collection, which slugs are derived from, and its
+ * slug field. The API flags both as `primary`; the slug field is the one with the
+ * `slug` slug
+ * @param fields The fields of the collection
+ */
+export const findSlugFields = (fields: CollectionField[]) => {
+  const slugField =
+    fields.find((field) => field.primary && field.slug === "slug") ||
+    fields.find((field) => field.slug === "slug");
+  const nameField =
+    fields.find((field) => field.primary && field !== slugField) ||
+    fields.find((field) => field.slug === "name");
+  return { nameField, slugField };
+};
+
+/**
+ * Returns the slug field of a new item and the slug derived from its primary name, if
+ * the item has no slug. Returns undefined when no slug is derived
+ * @param fields The fields of the collection
+ * @param data The data of the new item
+ * @param options The separator and maximum length of the slug
+ */
+export const deriveSlug = (
+  fields: CollectionField[],
+  data: { [field: string]: any },
+  options: SlugOptions
+) => {
+  const { nameField, slugField } = findSlugFields(fields);
+  const name = nameField && data[nameField.slug];
+  if (!slugField || data[slugField.slug] || typeof name !== "string") return undefined;
+  const base = slugify(name, options);
+  return base ? { field: slugField, base } : undefined;
+};
+
+interface SlugScope {
+  /** Slugs of resources being created */
+  pending: Set<string>;
+  /** Slugs of created resources that lookups in flight may have missed */
+  created: Set<string>;
+  /** The number of lookups of existing slugs in flight */
+  lookups: number;
+}
+
+/**
+ * Hands out unique slugs to resources created at the same time, which would otherwise
+ * find the same free slug. A slug is held while its resource is created, and until
+ * every lookup of existing slugs sent before the resource was created has returned
+ */
+export class SlugReservations {
+  private scopes = new Map<string, SlugScope>();
+
+  /**
+   * Creates a resource with the first free slug derived from `base`
+   * @param scope The path of the list the slug must be unique in
+   * @param base The slug derived from the name of the resource
+   * @param options The separator and maximum length of the slug
+   * @param findTaken Returns the candidate slugs used by existing resources
+   * @param create Sends the request that creates the resource with the slug
+   */
+  async withUniqueSlug<T>(
+    scope: string,
+    base: string,
+    options: SlugOptions,
+    findTaken: (candidates: string[]) => Promise<string[]>,
+    create: (slug: string) => Promise<T>
+  ): Promise<T> {
+    const state = this.scopes.get(scope) || { pending: new Set(), created: new Set(), lookups: 0 };
+    this.scopes.set(scope, state);
+    const isHeld = (slug: string) => state.pending.has(slug) || state.created.has(slug);
+
+    let slug: string;
+    do {
+      slug = await findUniqueSlug(base, options, async (candidates) => {
+        state.lookups++;
+        try {
+          return [...(await findTaken(candidates)), ...candidates.filter(isHeld)];
+        } finally {
+          if (!--state.lookups) state.created.clear();
+        }
+      });
+    } while (isHeld(slug));
+
+    state.pending.add(slug);
+    try {
+      const result = await create(slug);
+      if (state.lookups) state.created.add(slug);
+      return result;
+    } finally {
+      state.pending.delete(slug);
+    }
+  }
+}
@@ -0,0 +1,248 @@
+import { URL } from "url";
+import { CollectionField, CollectionValidationOption } from "../interfaces/collectionInterfaces";
+
+export type FieldValidationRule =
+  | "required"
+  | "unknown"
+  | "type"
+  | "format"
+  | "minLength"
+  | "maxLength"
+  | "singleLine"
+  | "pattern"
+  | "minimum"
+  | "maximum"
+  | "allowNegative"
+  | "integer"
+  | "decimalPlaces"
+  | "options";
+
+export interface FieldValidationError {
+  /** The slug of the field */
+  field: string;
+  /** The name of the field */
+  name: string;
+  /** The rule the value broke */
+  rule: FieldValidationRule;
+  /** Human readable description of the error */
+  message: string;
+  /** The value that failed validation */
+  value?: any;
+}
+
+export interface ItemValidationResult {
+  /** True if the item passed every validation */
+  valid: boolean;
+  /** The errors of every field that failed validation */
+  errors: FieldValidationError[];
+}
+
+export interface ItemValidationOptions {
+  /**
+   * Only validate the fields present in the data, as in a partial update. Required
+   * fields that are missing are not reported
+   * @default false
+   */
+  partial?: boolean;
+  /**
+   * Allow fields that are not defined in the collection
+   * @default false
+   */
+  allowUnknown?: boolean;
+}
+
+/** Fields of an item that are managed by the CMS and never validated */
+const metaFields = [
+  "_id",
+  "_cid",
+  "database",
+  "created-by",
+  "updated-by",
+  "updated-on",
+  "created-on",
+  "item_id",
+];
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_REGEX = /^\+?[0-9\s().-]{7,20}$/;
+const HEX_COLOR_REGEX = /^#(?:[0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+const FUNCTIONAL_COLOR_REGEX = /^(?:rgba?|hsla?)\(\s*[-\d.%\s,/]+\)$/i;
+const OBJECT_ID_REGEX = /^[0-9a-f]{24}$/i;
+
+const isEmpty = (value: any) => value === undefined || value === null || value === "";
+
+const isReference = (value: any) =>
+  (typeof value === "string" && OBJECT_ID_REGEX.test(value)) ||
+  (value !== null && typeof value === "object" && typeof value._id === "string");
+
+const isUrl = (value: any) => {
+  if (typeof value !== "string") return false;
+  try {
+    const { protocol } = new URL(value);
+    return protocol === "http:" || protocol === "https:";
+  } catch (err) {
+    return false;
+  }
+};
+
+const countDecimalPlaces = (value: number) => {
+  const [, decimals = ""] = String(value).split(".");
+  return decimals.length;
+};
+
+const getOptionNames = (options: CollectionValidationOption[] | string[]) => {
+  const names: string[] = [];
+  for (const option of options as Array<CollectionValidationOption | string>) {
+    if (typeof option === "string") names.push(option);
+    else names.push(option.name, String(option._id));
+  }
+  return names;
+};
+
+/**
+ * Checks a single field value against the type and validations of its collection
+ * field. Returns the errors of the value
+ * @param field The collection field
+ * @param value The value of the field
+ */
+export const validateField = (field: CollectionField, value: any): FieldValidationError[] => {
+  const errors: FieldValidationError[] = [];
+  const validations = field.validations || {};
+  const fail = (rule: FieldValidationRule, message: string) =>
+    errors.push({ field: field.slug, name: field.name, rule, message, value });
+
+  if (isEmpty(value)) {
+    if (field.required) fail("required", `'${field.name}' is required`);
+    return errors;
+  }
+
+  switch (field.type) {
+    case "PlainText":
+    case "RichText": {
+      if (typeof value !== "string") {
+        fail("type", `'${field.name}' must be a string`);
+        break;
+      }
+      const { minLength, maxLength, singleLine, pattern } = validations;
+      if (minLength !== undefined && value.length < minLength)
+        fail("minLength", `'${field.name}' must be at least ${minLength} characters`);
+      if (maxLength !== undefined && value.length > maxLength)
+        fail("maxLength", `'${field.name}' must be at most ${maxLength} characters`);
+      if (singleLine && /[\r\n]/.test(value))
+        fail("singleLine", `'${field.name}' must be on a single line`);
+      if (pattern && !new RegExp(pattern).test(value))
+        fail("pattern", `'${field.name}' does not match the pattern ${pattern}`);
+      break;
+    }
+    case "Email":
+      if (typeof value !== "string" || !EMAIL_REGEX.test(value))
+        fail("format", `'${field.name}' must be a valid email address`);
+      break;
+    case "Phone":
+      if (typeof value !== "string" || !PHONE_REGEX.test(value))
+        fail("format", `'${field.name}' must be a valid phone number`);
+      break;
+    case "Color":
+      if (
+        typeof value !== "string" ||
+        !(HEX_COLOR_REGEX.test(value) || FUNCTIONAL_COLOR_REGEX.test(value))
+      )
+        fail("format", `'${field.name}' must be a hex, rgb or hsl color`);
+      break;
+    case "Link":
+    case "Video":
+      if (!isUrl(value)) fail("format", `'${field.name}' must be a valid http(s) URL`);
+      break;
+    case "Number": {
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        fail("type", `'${field.name}' must be a number`);
+        break;
+      }
+      const { minimum, maximum, allowNegative, format, decimalPlaces } = validations;
+      if (minimum !== undefined && value < minimum)
+        fail("minimum", `'${field.name}' must be at least ${minimum}`);
+      if (maximum !== undefined && value > maximum)
+        fail("maximum", `'${field.name}' must be at most ${maximum}`);
+      if (allowNegative === false && value < 0)
+        fail("allowNegative", `'${field.name}' cannot be negative`);
+      if (format === "integer" && !Number.isInteger(value))
+        fail("integer", `'${field.name}' must be an integer`);
+      if (decimalPlaces !== undefined && countDecimalPlaces(value) > decimalPlaces)
+        fail("decimalPlaces", `'${field.name}' can have at most ${decimalPlaces} decimal places`);
+      break;
+    }
+    case "Bool":
+      if (typeof value !== "boolean") fail("type", `'${field.name}' must be a boolean`);
+      break;
+    case "Date": {
+      const valid =
+        (value instanceof Date && !Number.isNaN(value.getTime())) ||
+        ((typeof value === "string" || typeof value === "number") &&
+          !Number.isNaN(new Date(value).getTime()));
+      if (!valid) fail("type", `'${field.name}' must be a valid date`);
+      break;
+    }
+    case "Option": {
+      if (typeof value !== "string") {
+        fail("type", `'${field.name}' must be a string`);
+        break;
+      }
+      const options = validations.options ? getOptionNames(validations.options) : [];
+      if (options.length && !options.includes(value))
+        fail("options", `'${field.name}' must be one of the field's options`);
+      break;
+    }
+    case "ItemRef":
+    case "User":
+      if (!isReference(value)) fail("type", `'${field.name}' must be an ID`);
+      break;
+    case "ItemRefMulti":
+      if (!Array.isArray(value) || !value.every(isReference))
+        fail("type", `'${field.name}' must be an array of IDs`);
+      break;
+    case "ImageRef": {
+      const valid =
+        typeof value === "string" ||
+        (value !== null && typeof value === "object" && (value._id || value.url));
+      if (!valid) fail("type", `'${field.name}' must be an image ID or image reference`);
+      break;
+    }
+  }
+  return errors;
+};
+
+/**
+ * Checks the data of an item against the fields of its collection without sending a
+ * request
+ * @param fields The fields of the collection
+ * @param data The data of the item
+ * @param options
+ */
+export default function validateItem(
+  fields: CollectionField[],
+  data: { [field: string]: any },
+  { partial = false, allowUnknown = false }: ItemValidationOptions = {}
+): ItemValidationResult {
+  const errors: FieldValidationError[] = [];
+  const fieldsBySlug = new Map(fields.map((field) => [field.slug, field]));
+
+  for (const field of fields) {
+    if (partial && !(field.slug in data)) continue;
+    errors.push(...validateField(field, data[field.slug]));
+  }
+
+  if (!allowUnknown) {
+    for (const key of Object.keys(data)) {
+      if (fieldsBySlug.has(key) || metaFields.includes(key)) continue;
+      errors.push({
+        field: key,
+        name: key,
+        rule: "unknown",
+        message: `'${key}' is not a field of the collection`,
+        value: data[key],
+      });
+    }
+  }
+
+  return { valid: errors.length === 0, errors };
+}
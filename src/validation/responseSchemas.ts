@@ -0,0 +1,309 @@
+import { Method } from "axios";
+import fieldTypes from "../enums/fieldTypes";
+
+/**
+ * How responses are checked against their schema. `strict` rejects a response that
+ * does not match with a `ResponseValidationError`, `warn` reports the mismatches to
+ * `onValidationError` and returns the response, and `off` skips the check
+ */
+export type ResponseValidationMode = "strict" | "warn" | "off";
+
+export interface ResponseSchemaIssue {
+  /** The path of the value in the response body (e.g. `items[0]._id`) */
+  path: string;
+  /** The type the value was expected to have */
+  expected: string;
+  /** The type of the value that was received */
+  received: string;
+}
+
+/** Checks a value of a response, and returns an issue for every value that does not match */
+export type ResponseSchema = (value: any, path: string) => ResponseSchemaIssue[];
+
+const describe = (value: any) => {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (value instanceof Date) return "date";
+  return typeof value;
+};
+
+const joinPath = (path: string, key: string) => (path ? `${path}.${key}` : key);
+
+const primitive = (expected: string, test: (value: any) => boolean): ResponseSchema => (
+  value,
+  path
+) => (test(value) ? [] : [{ path, expected, received: describe(value) }]);
+
+const string = primitive("string", (value) => typeof value === "string");
+
+const number = primitive("number", (value) => typeof value === "number");
+
+const boolean = primitive("boolean", (value) => typeof value === "boolean");
+
+/** Dates are sent as ISO strings, but may already be hydrated to `Date` objects */
+const date = primitive(
+  "date",
+  (value) =>
+    value instanceof Date ||
+    ((typeof value === "string" || typeof value === "number") &&
+      !Number.isNaN(new Date(value).getTime()))
+);
+
+const literal = (...values: any[]): ResponseSchema =>
+  primitive(values.map((value) => JSON.stringify(value)).join(" | "), (value) =>
+    values.includes(value)
+  );
+
+const optional = (schema: ResponseSchema): ResponseSchema => (value, path) =>
+  value === undefined ? [] : schema(value, path);
+
+const array = (schema: ResponseSchema): ResponseSchema => (value, path) => {
+  if (!Array.isArray(value)) return [{ path, expected: "array", received: describe(value) }];
+  const issues: ResponseSchemaIssue[] = [];
+  value.forEach((element, i) => issues.push(...schema(element, `${path}[${i}]`)));
+  return issues;
+};
+
+/** Checks the properties in `shape`. Properties the schema does not know are allowed */
+const object = (shape: { [key: string]: ResponseSchema }): ResponseSchema => (value, path) => {
+  if (value === null || typeof value !== "object" || Array.isArray(value)) {
+    return [{ path, expected: "object", received: describe(value) }];
+  }
+  const issues: ResponseSchemaIssue[] = [];
+  for (const key of Object.keys(shape)) {
+    issues.push(...shape[key](value[key], joinPath(path, key)));
+  }
+  return issues;
+};
+
+const success = { status: literal("success") };
+
+const multipleResults = {
+  ...success,
+  results: number,
+  page: optional(primitive("number", (value) => !Number.isNaN(Number(value)))),
+  limit: optional(primitive("number", (value) => !Number.isNaN(Number(value)))),
+};
+
+const deletedCounts = {
+  ...success,
+  collectionsDeleted: number,
+  itemsDeleted: number,
+};
+
+const user = object({ _id: string, email: string, firstName: string, lastName: string });
+
+const database = object({
+  _id: string,
+  name: string,
+  createdBy: string,
+  slug: string,
+  timezone: string,
+  createdAt: date,
+});
+
+const member = object({
+  user_id: string,
+  email: string,
+  firstName: string,
+  lastName: string,
+  role: literal("owner", "editor", "viewer"),
+});
+
+const invitation = object({
+  _id: string,
+  email: string,
+  role: literal("editor", "viewer"),
+  invitedBy: string,
+  createdAt: date,
+});
+
+const collectionField = object({
+  _id: string,
+  name: string,
+  type: literal(...fieldTypes),
+  slug: string,
+  required: boolean,
+  editable: boolean,
+  validations: optional(object({})),
+  helpText: optional(string),
+  primary: optional(boolean),
+});
+
+const basicCollectionInfo = {
+  _id: string,
+  name: string,
+  singularName: string,
+  slug: string,
+  createdAt: date,
+  lastUpdated: date,
+};
+
+const collection = object({
+  ...basicCollectionInfo,
+  database: string,
+  shortId: string,
+  createdBy: string,
+  updatedBy: string,
+  fields: array(collectionField),
+});
+
+/**
+ * Only the fields managed by the CMS are checked; the fields of a collection are not
+ * known
+ */
+const item = object({
+  _id: string,
+  _cid: string,
+  database: string,
+  "created-by": string,
+  "updated-by": string,
+  "created-on": date,
+  "updated-on": date,
+  item_id: string,
+});
+
+/** Items requested with a field selection only have their `_id` and the selected fields */
+const selectedItem = object({
+  _id: string,
+  _cid: optional(string),
+  database: optional(string),
+  "created-by": optional(string),
+  "updated-by": optional(string),
+  "created-on": optional(date),
+  "updated-on": optional(date),
+  item_id: optional(string),
+});
+
+const asset = object({
+  _id: string,
+  url: string,
+  database: string,
+  fileName: string,
+  mimeType: string,
+  size: number,
+  width: optional(number),
+  height: optional(number),
+  createdBy: string,
+  createdAt: date,
+});
+
+/** Schemas of the response bodies, named after the interfaces in `interfaces/apiResponses` */
+export const responseSchemas = {
+  APIGenericResponse: object({ ...success, message: string }),
+  APIUserResponse: object({ ...success, user }),
+  APIDatabasesRepsonse: object({ ...multipleResults, databases: array(database) }),
+  APIDatabaseRepsonse: object({ ...success, database }),
+  APIDeletedDatabaseResponse: object({ ...deletedCounts, databasesDeleted: number }),
+  APIShareDatabaseResponse: object({
+    ...success,
+    member: optional(member),
+    invitation: optional(invitation),
+  }),
+  APIDatabaseMembersResponse: object({ ...success, members: array(member) }),
+  APIDatabaseMemberResponse: object({ ...success, member }),
+  APIDatabaseInvitationsResponse: object({ ...success, invitations: array(invitation) }),
+  APIDatabaseInvitationResponse: object({ ...success, invitation }),
+  APICollectionsResponse: object({
+    ...multipleResults,
+    database: string,
+    collections: array(object(basicCollectionInfo)),
+  }),
+  APICollectionResponse: object({ ...success, collection }),
+  APIDeletedCollectionResponse: object(deletedCounts),
+  APICollectionFieldsResponse: object({ ...success, fields: array(collectionField) }),
+  APICollectionFieldResponse: object({ ...success, field: collectionField }),
+  APIDeletedCollectionFieldResponse: object({ ...success, fieldDeleted: literal(true) }),
+  APIItemsResponse: object({ ...multipleResults, items: array(item) }),
+  APIItemResponse: object({ ...success, item }),
+  APIDeletedItemResponse: object({ ...success, itemsDeleted: number }),
+  APIAssetsResponse: object({ ...multipleResults, assets: array(asset) }),
+  APIAssetResponse: object({ ...success, asset }),
+  APIDeletedAssetResponse: object({ ...success, assetsDeleted: number }),
+};
+
+/** The schemas of the responses to requests with a field selection (`fields`) */
+const selectedSchemas = {
+  APIItemsResponse: object({ ...multipleResults, items: array(selectedItem) }),
+  APIItemResponse: object({ ...success, item: selectedItem }),
+};
+
+/** The method, path and response schemas of an endpoint, without and with a field selection */
+type Route = [Method, RegExp, ResponseSchema, ResponseSchema];
+
+const ID = "[^/]+";
+
+const route = (
+  method: Method,
+  pattern: string,
+  schema: ResponseSchema,
+  selectedSchema = schema
+): Route => [method, new RegExp(`^${pattern.replace(/:id/g, ID)}/?$`), schema, selectedSchema];
+
+/** The schema of the response of every endpoint the client sends requests to */
+const routes: Route[] = [
+  route("GET", "/users/me", responseSchemas.APIUserResponse),
+  route("GET", "/databases", responseSchemas.APIDatabasesRepsonse),
+  route("POST", "/databases", responseSchemas.APIDatabaseRepsonse),
+  route("GET", "/databases/:id", responseSchemas.APIDatabaseRepsonse),
+  route("PATCH", "/databases/:id", responseSchemas.APIDatabaseRepsonse),
+  route("DELETE", "/databases/:id", responseSchemas.APIDeletedDatabaseResponse),
+  route("POST", "/databases/:id/share", responseSchemas.APIShareDatabaseResponse),
+  route("GET", "/databases/:id/members", responseSchemas.APIDatabaseMembersResponse),
+  route("PATCH", "/databases/:id/members/:id", responseSchemas.APIDatabaseMemberResponse),
+  route("DELETE", "/databases/:id/members/:id", responseSchemas.APIDatabaseMemberResponse),
+  route("POST", "/databases/:id/transfer", responseSchemas.APIDatabaseMembersResponse),
+  route("GET", "/databases/:id/invitations", responseSchemas.APIDatabaseInvitationsResponse),
+  route("DELETE", "/databases/:id/invitations/:id", responseSchemas.APIDatabaseInvitationResponse),
+  route("GET", "/databases/:id/collections", responseSchemas.APICollectionsResponse),
+  route("GET", "/databases/:id/assets", responseSchemas.APIAssetsResponse),
+  route("POST", "/databases/:id/assets", responseSchemas.APIAssetResponse),
+  route("POST", "/collections", responseSchemas.APICollectionResponse),
+  route("GET", "/collections/:id", responseSchemas.APICollectionResponse),
+  route("PATCH", "/collections/:id", responseSchemas.APICollectionResponse),
+  route("DELETE", "/collections/:id", responseSchemas.APIDeletedCollectionResponse),
+  route("GET", "/collections/:id/fields", responseSchemas.APICollectionFieldsResponse),
+  route("POST", "/collections/:id/fields", responseSchemas.APICollectionFieldResponse),
+  route("GET", "/collections/:id/fields/:id", responseSchemas.APICollectionFieldResponse),
+  route("PATCH", "/collections/:id/fields/:id", responseSchemas.APICollectionFieldResponse),
+  route("DELETE", "/collections/:id/fields/:id", responseSchemas.APIDeletedCollectionFieldResponse),
+  route(
+    "GET",
+    "/collections/:id/items",
+    responseSchemas.APIItemsResponse,
+    selectedSchemas.APIItemsResponse
+  ),
+  route("POST", "/collections/:id/items", responseSchemas.APIItemResponse),
+  route(
+    "GET",
+    "/collections/:id/items/:id",
+    responseSchemas.APIItemResponse,
+    selectedSchemas.APIItemResponse
+  ),
+  route("PATCH", "/collections/:id/items/:id", responseSchemas.APIItemResponse),
+  route("PUT", "/collections/:id/items/:id", responseSchemas.APIItemResponse),
+  route("DELETE", "/collections/:id/items/:id", responseSchemas.APIDeletedItemResponse),
+  route("GET", "/assets/:id", responseSchemas.APIAssetResponse),
+  route("DELETE", "/assets/:id", responseSchemas.APIDeletedAssetResponse),
+];
+
+/**
+ * Checks the body of a response against the schema of its endpoint. Returns no issues
+ * for endpoints without a schema
+ * @param method The HTTP method of the request
+ * @param path The path of the request, relative to the API endpoint
+ * @param body The body of the response
+ * @param query The query string parameters of the request
+ */
+export default function checkResponse(
+  method: Method,
+  path: string,
+  body: any,
+  query: { [param: string]: any } = {}
+): ResponseSchemaIssue[] {
+  const upper = method.toUpperCase();
+  const match = routes.find(([routeMethod, regex]) => routeMethod === upper && regex.test(path));
+  if (!match) return [];
+  const schema = query.fields ? match[3] : match[2];
+  return schema(body, "");
+}